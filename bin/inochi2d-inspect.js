@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+/*
+    Prints what's inside an INP/INX file.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+
+    Authors: Luna Nielsen
+*/
+
+import { readFile } from "node:fs/promises";
+import { INP, Validation } from "../dist/inochi2d.es.js";
+
+const usage = `Usage: inochi2d-inspect [--payload] <model.inp>
+
+Prints the node tree, parameters, textures and usage rights of a puppet,
+along with any problems found in it. Exits with 1 if the puppet has errors.
+
+  --payload   Print the puppet payload JSON instead`;
+
+const args = process.argv.slice(2);
+const file = args.find((arg) => !arg.startsWith("--"));
+if (file === undefined || args.includes("--help")) {
+    console.log(usage);
+    process.exit(file === undefined ? 2 : 0);
+}
+
+let buffer;
+try {
+    buffer = new Uint8Array(await readFile(file));
+} catch (reason) {
+    console.error(`Could not read ${file}: ${reason.message}`);
+    process.exit(2);
+}
+
+try {
+    if (args.includes("--payload")) {
+        console.log(JSON.stringify(INP.inReadPayload(buffer), null, 2));
+        process.exit(0);
+    }
+
+    const info = await INP.inReadInfo(buffer);
+    const puppet = await INP.inImport(buffer);
+    const meta = puppet.meta ?? {};
+
+    console.log(`${meta.name || "(unnamed)"} ${meta.version ?? ""}`);
+    if (meta.artist) console.log(`  Artist:    ${meta.artist}`);
+    if (meta.rigger) console.log(`  Rigger:    ${meta.rigger}`);
+    if (meta.copyright) console.log(`  Copyright: ${meta.copyright}`);
+    if (meta.licenseURL) console.log(`  License:   ${meta.licenseURL}`);
+    if (meta.contact) console.log(`  Contact:   ${meta.contact}`);
+
+    console.log("\nUsage rights");
+    const rights = meta.rights;
+    if (rights == null) {
+        console.log("  (none given)");
+    } else {
+        for (const [key, value] of Object.entries(rights)) console.log(`  ${key}: ${value}`);
+    }
+
+    console.log(`\nNodes (${info.nodeCount})`);
+    const printNode = (node, depth) => {
+        const flags = node.enabled ? "" : " [disabled]";
+        console.log(`${"  ".repeat(depth + 1)}${node.name} <${node.type}> #${node.uuid}${flags}`);
+        node.children.forEach((child) => printNode(child, depth + 1));
+    };
+    printNode(puppet.rootNode, 0);
+
+    console.log(`\nParameters (${puppet.params.length})`);
+    for (const param of puppet.params) {
+        const range = param.is_vec2
+            ? `x ${param.min.x}..${param.max.x}, y ${param.min.y}..${param.max.y}`
+            : `${param.min.x}..${param.max.x}`;
+        console.log(`  ${param.name} #${param.uuid}: ${range}, ${param.bindings.length} bindings`);
+    }
+
+    console.log(`\nTextures (${puppet.textures.length})`);
+    puppet.textures.forEach((texture, index) => {
+        const format = INP.TextureType[info.textureTypes[index]] ?? `type ${info.textureTypes[index]}`;
+        const thumbnail = index === meta.thumbnailId ? " (thumbnail)" : "";
+        console.log(`  ${index}: ${texture.image.width}x${texture.image.height} ${format}${thumbnail}`);
+    });
+
+    if (puppet.extData.size > 0) {
+        console.log(`\nExtensions (${puppet.extData.size})`);
+        puppet.extData.forEach((data, name) => console.log(`  ${name}: ${data.length} bytes`));
+    }
+
+    const report = Validation.validatePuppet(puppet);
+    if (report.errors.length > 0 || report.warnings.length > 0) {
+        console.log(`\nProblems (${report.errors.length} errors, ${report.warnings.length} warnings)`);
+        report.errors.forEach((issue) => console.log(`  error: ${issue.message}`));
+        report.warnings.forEach((issue) => console.log(`  warning: ${issue.message}`));
+    }
+    process.exit(report.valid ? 0 : 1);
+} catch (reason) {
+    console.error(`Could not load ${file}: ${reason.message}`);
+    process.exit(1);
+}
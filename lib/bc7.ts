@@ -0,0 +1,283 @@
+/*
+    BC7 texture decoding
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+/**
+ * Layout of each of the 8 BC7 block modes.
+ */
+interface BC7Mode {
+    subsets: number;
+    partitionBits: number;
+    rotationBits: number;
+    indexSelectionBits: number;
+    colorBits: number;
+    alphaBits: number;
+    endpointPBits: boolean;
+    sharedPBits: boolean;
+    indexBits: number;
+    indexBits2: number;
+}
+
+const modes: BC7Mode[] = [
+    { subsets: 3, partitionBits: 4, rotationBits: 0, indexSelectionBits: 0, colorBits: 4, alphaBits: 0, endpointPBits: true,  sharedPBits: false, indexBits: 3, indexBits2: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 6, alphaBits: 0, endpointPBits: false, sharedPBits: true,  indexBits: 3, indexBits2: 0 },
+    { subsets: 3, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 5, alphaBits: 0, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 7, alphaBits: 0, endpointPBits: true,  sharedPBits: false, indexBits: 2, indexBits2: 0 },
+    { subsets: 1, partitionBits: 0, rotationBits: 2, indexSelectionBits: 1, colorBits: 5, alphaBits: 6, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 3 },
+    { subsets: 1, partitionBits: 0, rotationBits: 2, indexSelectionBits: 0, colorBits: 7, alphaBits: 8, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 2 },
+    { subsets: 1, partitionBits: 0, rotationBits: 0, indexSelectionBits: 0, colorBits: 7, alphaBits: 7, endpointPBits: true,  sharedPBits: false, indexBits: 4, indexBits2: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 5, alphaBits: 5, endpointPBits: true,  sharedPBits: false, indexBits: 2, indexBits2: 0 },
+];
+
+const weights: number[][] = [
+    [],
+    [],
+    [0, 21, 43, 64],
+    [0, 9, 18, 27, 37, 46, 55, 64],
+    [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64],
+];
+
+// Subset of each pixel for the 64 two-subset partitions, one hex digit per pixel
+const partitions2: string[] = [
+    "0011001100110011", "0001000100010001", "0111011101110111", "0001001100110111",
+    "0000000100010011", "0011011101111111", "0001001101111111", "0000000100110111",
+    "0000000000010011", "0011011111111111", "0000000101111111", "0000000000010111",
+    "0001011111111111", "0000000011111111", "0000111111111111", "0000000000001111",
+    "0000100011101111", "0111000100000000", "0000000010001110", "0111001100010000",
+    "0011000100000000", "0000100011001110", "0000000010001100", "0111001100110001",
+    "0011000100010000", "0000100010001100", "0110011001100110", "0011011001101100",
+    "0001011111101000", "0000111111110000", "0111000110001110", "0011100110011100",
+    "0101010101010101", "0000111100001111", "0101101001011010", "0011001111001100",
+    "0011110000111100", "0101010110101010", "0110100101101001", "0101101010100101",
+    "0111001111001110", "0001001111001000", "0011001001001100", "0011101111011100",
+    "0110100110010110", "0011110011000011", "0110011010011001", "0000011001100000",
+    "0100111001000000", "0010011100100000", "0000001001110010", "0000010011100100",
+    "0110110010010011", "0011011011001001", "0110001110011100", "0011100111000110",
+    "0110110011001001", "0110001100111001", "0111111010000001", "0001100011100111",
+    "0000111100110011", "0011001111110000", "0010001011101110", "0100010001110111",
+];
+
+// Subset of each pixel for the 64 three-subset partitions, one hex digit per pixel
+const partitions3: string[] = [
+    "0011001102212222", "0001001122112221", "0000200122112211", "0222002200110111",
+    "0000000011221122", "0011001100220022", "0022002211111111", "0011001122112211",
+    "0000000011112222", "0000111111112222", "0000111122222222", "0012001200120012",
+    "0112011201120112", "0122012201220122", "0011011211221222", "0011200122002220",
+    "0001001101121122", "0111001120012200", "0000112211221122", "0022002200221111",
+    "0111011102220222", "0001000122212221", "0000001101220122", "0000110022102210",
+    "0122012200110000", "0012001211222222", "0110122112210110", "0000011012211221",
+    "0022110211020022", "0110011020022222", "0011012201220011", "0000200022112221",
+    "0000000211221222", "0222002200120011", "0011001200220222", "0120012001200120",
+    "0000111122220000", "0120120120120120", "0120201212010120", "0011220011220011",
+    "0011112222000011", "0101010122222222", "0000000021212121", "0022112200221122",
+    "0022001100220011", "0220122102201221", "0101222222220101", "0000212121212121",
+    "0101010101012222", "0222011102220111", "0002111200021112", "0000211221122112",
+    "0222011101110222", "0002111211120002", "0110011001102222", "0000000021122112",
+    "0110011022222222", "0022001100110022", "0022112211220022", "0000000000002112",
+    "0002000100020001", "0222122202221222", "0101222222222222", "0111201122012220",
+];
+
+// Index of the anchor pixel of the second subset of the two-subset partitions
+const anchors2: number[] = [
+    15, 15, 15, 15, 15, 15, 15, 15,
+    15, 15, 15, 15, 15, 15, 15, 15,
+    15,  2,  8,  2,  2,  8,  8, 15,
+     2,  8,  2,  2,  8,  8,  2,  2,
+    15, 15,  6,  8,  2,  8, 15, 15,
+     2,  8,  2,  2,  2, 15, 15,  6,
+     6,  2,  6,  8, 15, 15,  2,  2,
+    15, 15, 15, 15, 15,  2,  2, 15,
+];
+
+// Index of the anchor pixel of the second subset of the three-subset partitions
+const anchors3Second: number[] = [
+     3,  3, 15, 15,  8,  3, 15, 15,
+     8,  8,  6,  6,  6,  5,  3,  3,
+     3,  3,  8, 15,  3,  3,  6, 10,
+     5,  8,  8,  6,  8,  5, 15, 15,
+     8, 15,  3,  5,  6, 10,  8, 15,
+    15,  3, 15,  5, 15, 15, 15, 15,
+     3, 15,  5,  5,  5,  8,  5, 10,
+     5, 10,  8, 13, 15, 12,  3,  3,
+];
+
+// Index of the anchor pixel of the third subset of the three-subset partitions
+const anchors3Third: number[] = [
+    15,  8,  8,  3, 15, 15,  3,  8,
+    15, 15, 15, 15, 15, 15, 15,  8,
+    15,  8, 15,  3, 15,  8, 15,  8,
+     3, 15,  6, 10, 15, 15, 10,  8,
+    15,  3, 15, 10, 10,  8,  9, 10,
+     6, 15,  8, 15,  3,  6,  6,  8,
+    15,  3, 15, 15, 15, 15, 15, 15,
+    15, 15, 15, 15,  3, 15, 15,  8,
+];
+
+/**
+ * Reads the bits of a 128 bit block, least significant bit first.
+ */
+class BlockReader {
+    private bit: number = 0;
+
+    constructor(private data: Uint8Array, private offset: number) { }
+
+    read(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+            const bit = this.bit++;
+            value |= ((this.data[this.offset + (bit >> 3)] >> (bit & 7)) & 1) << i;
+        }
+        return value;
+    }
+}
+
+function subsetOf(mode: BC7Mode, partition: number, pixel: number): number {
+    if (mode.subsets === 2) return partitions2[partition].charCodeAt(pixel) - 48;
+    if (mode.subsets === 3) return partitions3[partition].charCodeAt(pixel) - 48;
+    return 0;
+}
+
+function isAnchor(mode: BC7Mode, partition: number, pixel: number): boolean {
+    if (pixel === 0) return true;
+    if (mode.subsets === 2) return pixel === anchors2[partition];
+    if (mode.subsets === 3) return pixel === anchors3Second[partition] || pixel === anchors3Third[partition];
+    return false;
+}
+
+/**
+ * Expands an endpoint component of the given precision to 8 bits.
+ */
+function unquantize(value: number, bits: number): number {
+    value <<= 8 - bits;
+    return value | (value >> bits);
+}
+
+function interpolate(e0: number, e1: number, weight: number): number {
+    return ((64 - weight) * e0 + weight * e1 + 32) >> 6;
+}
+
+/**
+ * Decodes a single 4x4 block into 16 RGBA pixels.
+ */
+function decodeBlock(data: Uint8Array, offset: number, out: Uint8Array) {
+    const reader = new BlockReader(data, offset);
+
+    // The mode is the number of leading zero bits
+    let modeIndex = 0;
+    while (modeIndex < 8 && reader.read(1) === 0) modeIndex++;
+    if (modeIndex === 8) {
+        // Reserved mode, decodes to transparent black
+        out.fill(0);
+        return;
+    }
+    const mode = modes[modeIndex];
+
+    const partition = reader.read(mode.partitionBits);
+    const rotation = reader.read(mode.rotationBits);
+    const indexSelection = reader.read(mode.indexSelectionBits);
+
+    // Endpoints, as [subset * 2 + endpoint][channel]
+    const endpointCount = mode.subsets * 2;
+    const endpoints: number[][] = [];
+    for (let i = 0; i < endpointCount; i++) endpoints.push([0, 0, 0, 255]);
+    for (let channel = 0; channel < 3; channel++) {
+        for (let i = 0; i < endpointCount; i++) endpoints[i][channel] = reader.read(mode.colorBits);
+    }
+    if (mode.alphaBits > 0) {
+        for (let i = 0; i < endpointCount; i++) endpoints[i][3] = reader.read(mode.alphaBits);
+    }
+
+    // P-bits add a shared least significant bit to each endpoint
+    let colorBits = mode.colorBits;
+    let alphaBits = mode.alphaBits;
+    if (mode.endpointPBits || mode.sharedPBits) {
+        const pbits: number[] = [];
+        if (mode.endpointPBits) {
+            for (let i = 0; i < endpointCount; i++) pbits.push(reader.read(1));
+        } else {
+            for (let i = 0; i < mode.subsets; i++) {
+                const pbit = reader.read(1);
+                pbits.push(pbit, pbit);
+            }
+        }
+        for (let i = 0; i < endpointCount; i++) {
+            for (let channel = 0; channel < 3; channel++) endpoints[i][channel] = (endpoints[i][channel] << 1) | pbits[i];
+            if (mode.alphaBits > 0) endpoints[i][3] = (endpoints[i][3] << 1) | pbits[i];
+        }
+        colorBits++;
+        if (alphaBits > 0) alphaBits++;
+    }
+    for (let i = 0; i < endpointCount; i++) {
+        for (let channel = 0; channel < 3; channel++) endpoints[i][channel] = unquantize(endpoints[i][channel], colorBits);
+        if (alphaBits > 0) endpoints[i][3] = unquantize(endpoints[i][3], alphaBits);
+    }
+
+    // Indices, anchor pixels drop their most significant bit
+    const indices: number[] = [];
+    for (let pixel = 0; pixel < 16; pixel++) {
+        indices.push(reader.read(isAnchor(mode, partition, pixel) ? mode.indexBits - 1 : mode.indexBits));
+    }
+    const indices2: number[] = [];
+    if (mode.indexBits2 > 0) {
+        for (let pixel = 0; pixel < 16; pixel++) {
+            indices2.push(reader.read(pixel === 0 ? mode.indexBits2 - 1 : mode.indexBits2));
+        }
+    }
+
+    for (let pixel = 0; pixel < 16; pixel++) {
+        const subset = subsetOf(mode, partition, pixel);
+        const e0 = endpoints[subset * 2];
+        const e1 = endpoints[subset * 2 + 1];
+
+        // Modes with a second set of indices use it for alpha, unless the index selection swaps them
+        let colorWeight = weights[mode.indexBits][indices[pixel]];
+        let alphaWeight = colorWeight;
+        if (mode.indexBits2 > 0) {
+            alphaWeight = weights[mode.indexBits2][indices2[pixel]];
+            if (indexSelection) [colorWeight, alphaWeight] = [alphaWeight, colorWeight];
+        }
+
+        const rgba = [
+            interpolate(e0[0], e1[0], colorWeight),
+            interpolate(e0[1], e1[1], colorWeight),
+            interpolate(e0[2], e1[2], colorWeight),
+            interpolate(e0[3], e1[3], alphaWeight),
+        ];
+
+        // Rotation swaps alpha with one of the color channels
+        if (rotation > 0) [rgba[3], rgba[rotation - 1]] = [rgba[rotation - 1], rgba[3]];
+        out.set(rgba, pixel * 4);
+    }
+}
+
+/**
+ * Decodes BC7 compressed blocks to RGBA pixels.
+ * @param data - The blocks, 16 bytes per 4x4 block, in row-major order.
+ * @param width - The width of the image in pixels.
+ * @param height - The height of the image in pixels.
+ * @returns The RGBA pixels of the image.
+ */
+export function decodeBC7(data: Uint8Array, width: number, height: number): Uint8Array {
+    const blocksX = Math.ceil(width / 4);
+    const blocksY = Math.ceil(height / 4);
+    if (data.length < blocksX * blocksY * 16) throw new Error("BC7 data is too short for the image size");
+
+    const pixels = new Uint8Array(width * height * 4);
+    const block = new Uint8Array(16 * 4);
+    for (let by = 0; by < blocksY; by++) {
+        for (let bx = 0; bx < blocksX; bx++) {
+            decodeBlock(data, (by * blocksX + bx) * 16, block);
+
+            // Copy the block, cropping it at the image edges
+            for (let y = 0; y < 4 && by * 4 + y < height; y++) {
+                for (let x = 0; x < 4 && bx * 4 + x < width; x++) {
+                    pixels.set(block.subarray((y * 4 + x) * 4, (y * 4 + x) * 4 + 4), ((by * 4 + y) * width + bx * 4 + x) * 4);
+                }
+            }
+        }
+    }
+    return pixels;
+}
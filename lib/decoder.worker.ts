@@ -0,0 +1,19 @@
+/*
+    Texture decode worker, see WorkerDecoderPool
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { decodeImage } from "./imagedecode";
+
+onmessage = async (event: MessageEvent) => {
+    try {
+        const image = await decodeImage(event.data.type, event.data.data);
+
+        // Hand the pixels back without copying them
+        postMessage({ width: image.width, height: image.height, data: image.data }, { transfer: [image.data.buffer] });
+    } catch (reason) {
+        postMessage({ error: reason instanceof Error ? reason.message : String(reason) });
+    }
+};
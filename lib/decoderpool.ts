@@ -0,0 +1,97 @@
+/*
+    Texture decoding in Web Workers
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { DecodedImage, TextureDecoder, TextureType } from "./imagedecode";
+
+/**
+ * Options for creating a WorkerDecoderPool.
+ */
+export interface WorkerDecoderPoolOptions {
+    /**
+     * The number of workers, one less than the number of cores by default.
+     */
+    size?: number;
+
+    /**
+     * Creates a worker running lib/decoder.worker.ts, for bundlers that can't resolve it on their own.
+     */
+    createWorker?: () => Worker;
+}
+
+interface DecodeJob {
+    type: TextureType;
+    data: Uint8Array;
+    resolve: (image: DecodedImage) => void;
+    reject: (reason: any) => void;
+}
+
+/**
+ * Decodes textures on a pool of Web Workers, keeping the main thread free.
+ * Payloads and pixels are transferred to and from the workers rather than copied.
+ */
+export class WorkerDecoderPool implements TextureDecoder {
+    private workers: Worker[] = [];
+    private idle: Worker[] = [];
+    private queue: DecodeJob[] = [];
+    private running: Map<Worker, DecodeJob> = new Map();
+
+    constructor(options: WorkerDecoderPoolOptions = {}) {
+        const size = options.size ?? Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+        const createWorker = options.createWorker ?? (() => new Worker(new URL("./decoder.worker.ts", import.meta.url), { type: "module" }));
+        for (let i = 0; i < size; i++) {
+            const worker = createWorker();
+            worker.onmessage = (event) => this.finish(worker, event.data.error, event.data);
+            worker.onerror = (event) => this.finish(worker, event.message, undefined);
+            this.workers.push(worker);
+            this.idle.push(worker);
+        }
+    }
+
+    decode(type: TextureType, data: Uint8Array): Promise<DecodedImage> {
+        if (this.workers.length === 0) return Promise.reject(new Error("Decoder pool was terminated"));
+        return new Promise((resolve, reject) => {
+            this.queue.push({ type, data, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Stops the workers, failing every decode that hasn't finished.
+     */
+    terminate() {
+        this.workers.forEach((worker) => worker.terminate());
+        const jobs = [...this.queue, ...this.running.values()];
+        this.workers = [];
+        this.idle = [];
+        this.queue = [];
+        this.running.clear();
+        jobs.forEach((job) => job.reject(new Error("Decoder pool was terminated")));
+    }
+
+    private dispatch() {
+        while (this.idle.length > 0 && this.queue.length > 0) {
+            const worker = this.idle.pop()!;
+            const job = this.queue.shift()!;
+            this.running.set(worker, job);
+
+            // Only payloads that own their whole buffer can be transferred as is
+            const data = job.data.byteOffset === 0 && job.data.byteLength === job.data.buffer.byteLength ? job.data : job.data.slice();
+            worker.postMessage({ type: job.type, data: data }, [data.buffer]);
+        }
+    }
+
+    private finish(worker: Worker, error: string | undefined, image: DecodedImage | undefined) {
+        const job = this.running.get(worker);
+        if (job === undefined) return;
+        this.running.delete(worker);
+        this.idle.push(worker);
+
+        if (error !== undefined || image === undefined) job.reject(new Error(error ?? "Texture decode worker failed"));
+        else job.resolve({ width: image.width, height: image.height, data: image.data });
+        this.dispatch();
+    }
+}
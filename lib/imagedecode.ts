@@ -0,0 +1,81 @@
+/*
+    Texture payload decoding
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+// Kept free of three.js, this module also runs inside the decode workers
+import { decode } from "fast-png";
+import { decodeTga } from "@lunapaint/tga-codec";
+import { decodeBC7 } from "./bc7";
+
+/**
+ * Texture encodings of the TEX_SECT section.
+ */
+export enum TextureType {
+    PNG = 0,
+    TGA = 1,
+    BC7 = 2,
+}
+
+/**
+ * The pixels of a decoded texture.
+ */
+export interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8Array | Uint8ClampedArray | Uint16Array;
+}
+
+/**
+ * Decodes texture payloads, swap it out through ImportOptions.decoder.
+ */
+export interface TextureDecoder {
+    /**
+     * Decodes a texture payload.
+     * @param type - The TextureType of the payload.
+     * @param data - The texture payload, the decoder may take ownership of its buffer.
+     * @returns The decoded pixels.
+     */
+    decode(type: TextureType, data: Uint8Array): Promise<DecodedImage>;
+}
+
+/**
+ * Splits a BC7 texture payload, a big-endian u32 width and height followed by the blocks.
+ * @param data - The texture payload.
+ * @returns The size of the texture and its blocks.
+ */
+export function readBC7Payload(data: Uint8Array): { width: number, height: number, blocks: Uint8Array } {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return { width: view.getUint32(0, false), height: view.getUint32(4, false), blocks: data.subarray(8) };
+}
+
+/**
+ * Decodes a texture payload.
+ * @param type - The TextureType of the payload.
+ * @param data - The texture payload.
+ * @returns The decoded pixels.
+ */
+export async function decodeImage(type: TextureType, data: Uint8Array): Promise<DecodedImage> {
+    switch (type) {
+        case TextureType.PNG:
+            const png = decode(data);
+            return { width: png.width, height: png.height, data: png.data };
+        case TextureType.TGA:
+            const tga = await decodeTga(data, { detectAmbiguousAlphaChannel: true });
+            return { width: tga.image.width, height: tga.image.height, data: tga.image.data };
+        case TextureType.BC7:
+            const bc7 = readBC7Payload(data);
+            return { width: bc7.width, height: bc7.height, data: decodeBC7(bc7.blocks, bc7.width, bc7.height) };
+        default:
+            throw new Error(`Unknown texture type ${type}`);
+    }
+}
+
+/**
+ * Decodes textures on the calling thread.
+ */
+export const mainThreadDecoder: TextureDecoder = {
+    decode: decodeImage,
+};
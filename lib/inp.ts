@@ -4,26 +4,260 @@
     
     Authors: Luna Nielsen
 */
-import { Puppet, deserializePuppet } from "./puppet";
+import { Puppet, PuppetMeta, NO_THUMBNAIL, deserializeMeta, deserializePuppet, serializePuppet } from "./puppet";
 import * as THREE from 'three';
 import { Parser } from "binary-parser";
-import { decode } from "fast-png";
-import { decodeTga } from "@lunapaint/tga-codec";
+import { encode } from "fast-png";
+import { decodeBC7 } from "./bc7";
+import { TextureDecoder, TextureType, mainThreadDecoder, readBC7Payload } from "./imagedecode";
 
+export { TextureType, mainThreadDecoder } from "./imagedecode";
+export type { DecodedImage, TextureDecoder } from "./imagedecode";
+export { WorkerDecoderPool } from "./decoderpool";
+export type { WorkerDecoderPoolOptions } from "./decoderpool";
 
-export async function downloadFile(url: string): Promise<Uint8Array> {
-    const response = await fetch(url);
-    const arrayBuffer = await response.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer)
+/**
+ * Options for importing a puppet.
+ */
+export interface ImportOptions {
+    /**
+     * Whether BC7 textures are uploaded compressed instead of decoded to RGBA.
+     * Only enable when the renderer supports EXT_texture_compression_bptc.
+     */
+    compressedTextures?: boolean;
+
+    /**
+     * Decodes the PNG, TGA and BC7 texture payloads, on the main thread by default.
+     * Pass a WorkerDecoderPool to decode them off the main thread.
+     */
+    decoder?: TextureDecoder;
+
+    /**
+     * Whether textures are only decoded once the first part using them is created.
+     * Until then they are transparent 1x1 stand-ins, see Puppet.loadTexture.
+     */
+    lazyTextures?: boolean;
+
+    /**
+     * Aborts loading, releasing the textures created so far.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Called as the download, parsing and texture decoding progress.
+     */
+    onProgress?: (progress: LoadProgress) => void;
+
+    /**
+     * Called when a lazily loaded texture fails to decode, the parts using it stay blank.
+     * Decoding is tried again the next time the texture is loaded.
+     */
+    onTextureError?: (error: InpTextureError) => void;
+}
+
+/**
+ * The stages of loading a puppet.
+ */
+export type LoadStage = "download" | "parse" | "textures";
+
+/**
+ * Progress of loading a puppet.
+ */
+export interface LoadProgress {
+    stage: LoadStage;
+
+    /**
+     * Bytes downloaded or parsed, or the number of textures decoded so far.
+     */
+    loaded: number;
+
+    /**
+     * The total for the stage, 0 if the size of a download isn't known.
+     */
+    total: number;
+}
+
+/**
+ * Options for exporting a puppet.
+ */
+export interface ExportOptions {
+    /**
+     * The encoding textures are written in, PNG by default.
+     */
+    textureFormat?: TextureType;
+}
+
+/**
+ * The sections of an INP file.
+ */
+export type InpSection = "header" | "payload" | "TEX_SECT" | "EXT_SECT";
+
+/**
+ * Thrown when an INP file is malformed.
+ */
+export class InpFormatError extends Error {
+    /**
+     * @param message - What is wrong with the file.
+     * @param offset - The byte offset the problem was found at.
+     * @param section - The section the problem was found in.
+     */
+    constructor(message: string, public offset: number, public section: InpSection) {
+        super(`${message} (${section}, byte ${offset})`);
+        this.name = "InpFormatError";
+    }
+}
+
+/**
+ * Thrown when a texture of an INP file can't be decoded.
+ */
+export class InpTextureError extends Error {
+    /**
+     * @param message - Why the texture couldn't be decoded.
+     * @param index - The index of the texture in TEX_SECT.
+     * @param cause - The error thrown by the decoder, if any.
+     */
+    constructor(message: string, public index: number, public cause?: unknown) {
+        super(`${message} (texture ${index})`);
+        this.name = "InpTextureError";
+    }
+}
+
+/**
+ * Thrown when downloading an INP file fails with an HTTP error.
+ */
+export class InpDownloadError extends Error {
+    /**
+     * @param url - The URL of the file.
+     * @param status - The HTTP status code.
+     * @param statusText - The HTTP status text.
+     */
+    constructor(public url: string, public status: number, statusText: string) {
+        super(`Downloading ${url} failed with HTTP ${status}${statusText ? ` ${statusText}` : ""}`);
+        this.name = "InpDownloadError";
+    }
+}
+
+/**
+ * Summary of an INP file, read without building the puppet.
+ */
+export interface PuppetInfo {
+    meta: PuppetMeta;
+    nodeCount: number;
+    paramCount: number;
+    textureCount: number;
+
+    /**
+     * The encoding of each texture.
+     */
+    textureTypes: TextureType[];
+
+    /**
+     * The thumbnail texture, or null if the puppet has none.
+     */
+    thumbnail: THREE.Texture | null;
+}
+
+/**
+ * Decodes, and optionally re-encodes, the payload of a vendor extension.
+ */
+export interface ExtensionHandler<T = any> {
+    /**
+     * Decodes the raw payload of the extension.
+     */
+    decode(data: Uint8Array, puppet: Puppet): T;
+
+    /**
+     * Encodes the decoded value back into a payload on export.
+     * Without an encoder the payload that was loaded is written back unchanged.
+     */
+    encode?(value: T, puppet: Puppet): Uint8Array;
+}
+
+const extensionHandlers: Map<string, ExtensionHandler> = new Map();
+
+/**
+ * Registers a handler for the EXT_SECT payloads with the given name.
+ * Payloads without a handler are kept as raw bytes.
+ * @param name - The name of the extension, eg. "com.inochi2d.inochi-session.bindings".
+ * @param handler - The handler for the extension payload.
+ */
+export function registerExtension<T>(name: string, handler: ExtensionHandler<T>) {
+    extensionHandlers.set(name, handler);
+}
+
+/**
+ * Removes the handler for the EXT_SECT payloads with the given name.
+ * @param name - The name of the extension.
+ */
+export function unregisterExtension(name: string) {
+    extensionHandlers.delete(name);
+}
+
+/**
+ * Decodes the extension payloads of a puppet which have a registered handler.
+ */
+function decodeExtensions(puppet: Puppet) {
+    puppet.extData.forEach((data, name) => {
+        const handler = extensionHandlers.get(name);
+        if (handler === undefined) return;
+        try {
+            puppet.extensions.set(name, handler.decode(data, puppet));
+        } catch (reason) {
+            console.warn(`Could not decode extension ${name}, keeping it as raw data`, reason);
+        }
+    });
+}
+
+/**
+ * Gets the payload to write for an extension, re-encoding it if its handler can.
+ */
+function encodeExtension(puppet: Puppet, name: string, data: Uint8Array): Uint8Array {
+    const handler = extensionHandlers.get(name);
+    if (handler?.encode === undefined || !puppet.extensions.has(name)) return data;
+    return handler.encode(puppet.extensions.get(name), puppet);
+}
+
+
+export async function downloadFile(url: string, options: ImportOptions = {}): Promise<Uint8Array> {
+    const response = await fetch(url, { signal: options.signal });
+    if (!response.ok) throw new InpDownloadError(url, response.status, response.statusText);
+    const total = Number(response.headers.get("Content-Length") ?? 0);
+    if (response.body === null) {
+        const uint8Array = new Uint8Array(await response.arrayBuffer());
+        options.onProgress?.({ stage: "download", loaded: uint8Array.length, total: uint8Array.length });
+        return uint8Array;
+    }
+
+    // Read the body in chunks to report progress
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    options.onProgress?.({ stage: "download", loaded: 0, total: total });
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loaded += value.length;
+        options.onProgress?.({ stage: "download", loaded: loaded, total: total });
+    }
+
+    const uint8Array = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+        uint8Array.set(chunk, offset);
+        offset += chunk.length;
+    }
     return uint8Array;
 }
 
-export async function inImport(filebuffer: Uint8Array): Promise<Puppet> {
+export async function inImport(filebuffer: Uint8Array, options: ImportOptions = {}): Promise<Puppet> {
+    options.signal?.throwIfAborted();
+    checkLayout(filebuffer);
 
     const textureparser = new Parser()
         .uint32("payloadLength")
         .uint8("type")
-        .array("data", { type: "uint8", length: "payloadLength" });
+        .buffer("data", { length: "payloadLength" });
 
     // Create parser
     const inpparser = new Parser()
@@ -32,62 +266,423 @@ export async function inImport(filebuffer: Uint8Array): Promise<Puppet> {
         .string("payload", { length: "payloadLength" })
         .string("magic", { length: 8, assert: "TEX_SECT"})
         .uint32("textureCount")
-        .array("textures", {type: textureparser, length: "textureCount" });
+        .array("textures", {type: textureparser, length: "textureCount" })
+        .saveOffset("extOffset");
+
+    const extensionparser = new Parser()
+        .uint32("nameLength")
+        .string("name", { length: "nameLength" })
+        .uint32("payloadLength")
+        .buffer("payload", { length: "payloadLength" });
+
+    // The EXT_SECT section is optional
+    const extparser = new Parser()
+        .string("magic", { length: 8, assert: "EXT_SECT"})
+        .uint32("extCount")
+        .array("extensions", {type: extensionparser, length: "extCount" });
 
     // Parse INP file
+    options.onProgress?.({ stage: "parse", loaded: 0, total: filebuffer.length });
     let parsed = inpparser.parse(filebuffer);
-    let textureLoads: Promise<THREE.DataTexture>[] = new Array<Promise<THREE.DataTexture>>(0);
-    parsed.textures.forEach((texture: any) => {
-        let t: number = texture.type;
-        let data: Uint8Array = new Uint8Array(texture.data);
-        switch(t) {
-            case 0:
-                textureLoads.push(
-                    new Promise((complete, _) => {
-                        // Load PNG file from memory stream
-                        let png = decode(data)
-                        let texture = new THREE.DataTexture(png.data, png.width, png.height);
-                        texture.generateMipmaps = true;
-                        texture.needsUpdate = true;
-                        complete(texture);
-                    })
-                );
-                break;
-            case 1:
-                // Load TGA file from memory stream
-                textureLoads.push(
-                    new Promise(async (complete, failure) => {
-                        decodeTga(data, { detectAmbiguousAlphaChannel: true }).then(tga => {
-                            let texture = new THREE.DataTexture(tga.image.data, tga.image.width, tga.image.height);
-                            texture.generateMipmaps = true;
-                            texture.needsUpdate = true;
-                            complete(texture);
-                        }).catch((reason) => {
-                            failure(reason);
-                        });
+    let extensions: any[] = filebuffer.length > parsed.extOffset ? extparser.parse(filebuffer.subarray(parsed.extOffset)).extensions : [];
+    options.onProgress?.({ stage: "parse", loaded: filebuffer.length, total: filebuffer.length });
+
+    return (async () => {
+        let textures: THREE.Texture[] = [];
+        try {
+            if (options.lazyTextures) {
+                // Compressed textures need no decoding, so they're loaded right away
+                textures = parsed.textures.map((texture: any) => isCompressed(texture.type, options) ? loadCompressedBC7(new Uint8Array(texture.data)) : createPlaceholderTexture());
+            } else {
+                // Decode the textures as the decoder allows, reporting each one as it completes
+                let decoded = 0;
+                options.onProgress?.({ stage: "textures", loaded: 0, total: parsed.textures.length });
+                const results = await Promise.allSettled(parsed.textures.map((texture: any, index: number) =>
+                    loadTexture(index, texture.type, new Uint8Array(texture.data), options).then((loaded) => {
+                        options.onProgress?.({ stage: "textures", loaded: ++decoded, total: parsed.textures.length });
+                        return loaded;
                     })
-                );
-                break;
-            default:
-                throw "Could not decode texture data";
+                ));
+                textures = results.filter((result) => result.status === "fulfilled").map((result) => (result as PromiseFulfilledResult<THREE.Texture>).value);
+                options.signal?.throwIfAborted();
+                const failure = results.find((result) => result.status === "rejected") as PromiseRejectedResult | undefined;
+                if (failure !== undefined) throw failure.reason;
+            }
+            options.signal?.throwIfAborted();
+        } catch (reason) {
+            // Release the textures created before loading stopped
+            textures.forEach((texture) => texture.dispose());
+            throw reason;
         }
-    });
 
-    return (async () => {
-        // Wait for textures and parse puppet
-        let textures = await Promise.all(textureLoads);
-        let puppet: Puppet = deserializePuppet(JSON.parse(parsed.payload), textures);
+        // Parse puppet
+        let puppet: Puppet;
+        try {
+            puppet = deserializePuppet(parsePayload(parsed.payload), textures);
+        } catch (reason) {
+            textures.forEach((texture) => texture.dispose());
+            throw reason;
+        }
 
         // console.log(parsed.payload)
 
         // Apply textures
         puppet.textures = Array.from(textures) as any;
+        if (options.lazyTextures) {
+            parsed.textures.forEach((texture: any, index: number) => {
+                if (!isCompressed(texture.type, options)) deferTexture(puppet, index, texture.type, new Uint8Array(texture.data), options);
+            });
+        }
+
+        // Keep the extension payloads as loaded, and decode the ones we know
+        extensions.forEach((extension: any) => {
+            puppet.extData.set(extension.name, new Uint8Array(extension.payload));
+        });
+        decodeExtensions(puppet);
 
         // Return puppet
         return puppet;
     })();
 }
 
-export async function inImportFromURL(url: string): Promise<Puppet> {
-    return await inImport(await (downloadFile(url)));
-}
\ No newline at end of file
+export async function inImportFromURL(url: string, options: ImportOptions = {}): Promise<Puppet> {
+    return await inImport(await (downloadFile(url, options)), options);
+}
+
+/**
+ * Reads the metadata and thumbnail of an INP file.
+ * Only the thumbnail texture is decoded, and no nodes are created.
+ * @param filebuffer - The bytes of the INP file.
+ * @param options - Import options, used to decode the thumbnail.
+ * @returns The summary of the puppet.
+ */
+export async function inReadInfo(filebuffer: Uint8Array, options: ImportOptions = {}): Promise<PuppetInfo> {
+    checkLayout(filebuffer);
+
+    // Skip over the texture data, only keeping where it is
+    const textureparser = new Parser()
+        .uint32("payloadLength")
+        .uint8("type")
+        .saveOffset("offset")
+        .seek("payloadLength");
+
+    const infoparser = new Parser()
+        .string("magic", { length: 8, assert: "TRNSRTS\0"})
+        .uint32("payloadLength")
+        .string("payload", { length: "payloadLength" })
+        .string("magic", { length: 8, assert: "TEX_SECT"})
+        .uint32("textureCount")
+        .array("textures", {type: textureparser, length: "textureCount" });
+
+    let parsed = infoparser.parse(filebuffer);
+    let json = parsePayload(parsed.payload);
+    let meta: PuppetMeta = deserializeMeta(json.meta ?? {});
+
+    // Decode the thumbnail only
+    let thumbnail: THREE.Texture | null = null;
+    let thumbnailId = meta.thumbnailId;
+    if (thumbnailId !== NO_THUMBNAIL && thumbnailId < parsed.textures.length) {
+        const texture = parsed.textures[thumbnailId];
+        thumbnail = await loadTexture(thumbnailId, texture.type, filebuffer.slice(texture.offset, texture.offset + texture.payloadLength), options);
+    }
+
+    return {
+        meta: meta,
+        nodeCount: json.nodes !== undefined ? countNodes(json.nodes) : 0,
+        paramCount: json.param !== undefined ? json.param.length : 0,
+        textureCount: parsed.textureCount,
+        textureTypes: parsed.textures.map((texture: any) => texture.type),
+        thumbnail: thumbnail,
+    };
+}
+
+/**
+ * Reads the JSON puppet payload of an INP file as it is stored, without decoding anything else.
+ * @param filebuffer - The bytes of the INP file.
+ * @returns The parsed puppet payload.
+ */
+export function inReadPayload(filebuffer: Uint8Array): any {
+    checkLayout(filebuffer);
+    const payloadLength = new DataView(filebuffer.buffer, filebuffer.byteOffset, filebuffer.byteLength).getUint32(8, false);
+    return parsePayload(new TextDecoder().decode(filebuffer.subarray(12, 12 + payloadLength)));
+}
+
+function countNodes(json: any): number {
+    let count = 1;
+    if (json.children !== undefined) json.children.forEach((child: any) => count += countNodes(child));
+    return count;
+}
+
+/**
+ * Checks that the sections of an INP file are where their lengths say, so that parsing can't run off the end.
+ * @param filebuffer - The bytes of the INP file.
+ */
+function checkLayout(filebuffer: Uint8Array) {
+    const view = new DataView(filebuffer.buffer, filebuffer.byteOffset, filebuffer.byteLength);
+    const magic = (offset: number) => new TextDecoder().decode(filebuffer.subarray(offset, offset + 8));
+    const expect = (offset: number, length: number, section: InpSection, what: string) => {
+        if (offset + length > filebuffer.length) throw new InpFormatError(`File ends in the middle of ${what}`, offset, section);
+    };
+
+    // Header and puppet payload
+    expect(0, 12, "header", "the header");
+    if (magic(0) !== "TRNSRTS\0") throw new InpFormatError("Not an INP file", 0, "header");
+    const payloadLength = view.getUint32(8, false);
+    expect(12, payloadLength, "payload", "the puppet payload");
+
+    // Textures
+    let offset = 12 + payloadLength;
+    expect(offset, 12, "TEX_SECT", "the texture section header");
+    if (magic(offset) !== "TEX_SECT") throw new InpFormatError("Missing texture section", offset, "TEX_SECT");
+    const textureCount = view.getUint32(offset + 8, false);
+    offset += 12;
+    for (let i = 0; i < textureCount; i++) {
+        expect(offset, 5, "TEX_SECT", `texture ${i}`);
+        const length = view.getUint32(offset, false);
+        expect(offset + 5, length, "TEX_SECT", `texture ${i}`);
+        offset += 5 + length;
+    }
+
+    // Vendor extensions are optional
+    if (offset === filebuffer.length) return;
+    expect(offset, 12, "EXT_SECT", "the extension section header");
+    if (magic(offset) !== "EXT_SECT") throw new InpFormatError("Unknown data after the texture section", offset, "EXT_SECT");
+    const extCount = view.getUint32(offset + 8, false);
+    offset += 12;
+    for (let i = 0; i < extCount; i++) {
+        expect(offset, 4, "EXT_SECT", `extension ${i}`);
+        const nameLength = view.getUint32(offset, false);
+        offset += 4;
+        expect(offset, nameLength + 4, "EXT_SECT", `extension ${i}`);
+        const length = view.getUint32(offset + nameLength, false);
+        offset += nameLength + 4;
+        expect(offset, length, "EXT_SECT", `extension ${i}`);
+        offset += length;
+    }
+}
+
+/**
+ * Parses the JSON puppet payload.
+ */
+function parsePayload(payload: string): any {
+    try {
+        return JSON.parse(payload);
+    } catch (reason) {
+        throw new InpFormatError(`Puppet payload is not valid JSON: ${reason instanceof Error ? reason.message : reason}`, 12, "payload");
+    }
+}
+
+/**
+ * Decodes the payload of a TEX_SECT texture, reporting failures as an InpTextureError.
+ * @param index - The index of the texture.
+ * @param t - The TextureType of the payload.
+ * @param data - The texture payload.
+ * @param options - Import options.
+ * @returns The decoded texture.
+ */
+async function loadTexture(index: number, t: number, data: Uint8Array, options: ImportOptions = {}): Promise<THREE.Texture> {
+    // Give the event loop a turn first, so progress gets drawn and aborts get through
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    options.signal?.throwIfAborted();
+
+    try {
+        return await decodeTexture(t, data, options);
+    } catch (reason) {
+        throw new InpTextureError(`Could not decode ${TextureType[t] ?? `type ${t}`} texture data`, index, reason);
+    }
+}
+
+async function decodeTexture(t: number, data: Uint8Array, options: ImportOptions): Promise<THREE.Texture> {
+    if (isCompressed(t, options)) return loadCompressedBC7(data);
+
+    const image = await (options.decoder ?? mainThreadDecoder).decode(t, data);
+    let texture = new THREE.DataTexture(image.data, image.width, image.height);
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/**
+ * Whether a texture payload gets uploaded as it is rather than decoded.
+ */
+function isCompressed(t: number, options: ImportOptions): boolean {
+    return t === TextureType.BC7 && (options.compressedTextures ?? false);
+}
+
+/**
+ * Loads a BC7 texture payload as a compressed texture.
+ */
+function loadCompressedBC7(data: Uint8Array): THREE.Texture {
+    const { width, height, blocks } = readBC7Payload(data);
+    const mipmaps: any[] = [{ data: blocks, width: width, height: height }];
+    let texture = new THREE.CompressedTexture(mipmaps, width, height, THREE.RGBA_BPTC_Format);
+    texture.minFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/**
+ * Creates the transparent 1x1 stand-in of a lazily decoded texture.
+ */
+function createPlaceholderTexture(): THREE.DataTexture {
+    let texture = new THREE.DataTexture(new Uint8Array(4), 1, 1);
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/**
+ * Registers the decoding of a lazily loaded texture on the puppet.
+ * The stand-in texture gets the decoded pixels, so materials using it pick them up.
+ */
+function deferTexture(puppet: Puppet, index: number, t: number, data: Uint8Array, options: ImportOptions) {
+    const placeholder = puppet.textures[index];
+    let decoding: Promise<void> | undefined;
+    // The decoder may take the buffer it is given, the payload is kept for retries
+    puppet.lazyTextures.set(index, () => decoding ??= loadTexture(index, t, data.slice(), { ...options, signal: undefined }).then((texture) => {
+        // A new source gets new GPU storage, the stand-in's is only 1x1
+        placeholder.source = texture.source;
+        placeholder.needsUpdate = true;
+        puppet.lazyTextures.delete(index);
+    }).catch((reason) => {
+        // Let the next load try again
+        decoding = undefined;
+        options.onTextureError?.(reason);
+        throw reason;
+    }));
+}
+
+/**
+ * Exports a puppet to the INP format.
+ * @param puppet - The puppet to export.
+ * @param options - Export options.
+ * @returns The bytes of the INP file.
+ */
+export function inExport(puppet: Puppet, options: ExportOptions = {}): Uint8Array {
+    const textureFormat = options.textureFormat ?? TextureType.PNG;
+    if (puppet.lazyTextures.size > 0) throw new Error("Some textures haven't been decoded yet, await puppet.loadTextures() before exporting");
+    const writer = new BinaryWriter();
+
+    // Puppet payload
+    const payload = new TextEncoder().encode(JSON.stringify(serializePuppet(puppet)));
+    writer.writeString("TRNSRTS\0");
+    writer.writeUint32(payload.length);
+    writer.writeBytes(payload);
+
+    // Textures
+    writer.writeString("TEX_SECT");
+    writer.writeUint32(puppet.textures.length);
+    for (const texture of puppet.textures) {
+        const data = textureFormat === TextureType.TGA ? encodeTextureTga(texture) : encodeTexturePng(texture);
+        writer.writeUint32(data.length);
+        writer.writeUint8(textureFormat);
+        writer.writeBytes(data);
+    }
+
+    // Vendor extensions
+    if (puppet.extData.size > 0) {
+        writer.writeString("EXT_SECT");
+        writer.writeUint32(puppet.extData.size);
+        puppet.extData.forEach((data, name) => {
+            const encodedName = new TextEncoder().encode(name);
+            const payload = encodeExtension(puppet, name, data);
+            writer.writeUint32(encodedName.length);
+            writer.writeBytes(encodedName);
+            writer.writeUint32(payload.length);
+            writer.writeBytes(payload);
+        });
+    }
+
+    return writer.finish();
+}
+
+/**
+ * Gets the pixels of a decoded texture along with their layout.
+ */
+function texturePixels(texture: THREE.Texture): { width: number, height: number, channels: number, data: Uint8Array | Uint16Array } {
+    // Compressed textures get decoded first
+    if (texture instanceof THREE.CompressedTexture && (texture.format as number) === THREE.RGBA_BPTC_Format) {
+        const mipmap = texture.mipmaps[0];
+        const blocks = new Uint8Array(mipmap.data.buffer, mipmap.data.byteOffset, mipmap.data.byteLength);
+        return { width: mipmap.width, height: mipmap.height, channels: 4, data: decodeBC7(blocks, mipmap.width, mipmap.height) };
+    }
+
+    const image = texture.image;
+    if (image === undefined || image.data === undefined) throw new Error("Texture has no pixel data to export");
+    const data = image.data as Uint8Array | Uint16Array;
+    return {
+        width: image.width,
+        height: image.height,
+        channels: data.length / (image.width * image.height),
+        data: data,
+    };
+}
+
+function encodeTexturePng(texture: THREE.Texture): Uint8Array {
+    const { width, height, channels, data } = texturePixels(texture);
+    return encode({ width, height, channels, data, depth: data instanceof Uint16Array ? 16 : 8 });
+}
+
+function encodeTextureTga(texture: THREE.Texture): Uint8Array {
+    const { width, height, channels, data } = texturePixels(texture);
+    const shift = data instanceof Uint16Array ? 8 : 0;
+    const out = new Uint8Array(18 + width * height * 4);
+
+    // Uncompressed true-color, 32 bits per pixel, 8 alpha bits, top-left origin
+    out[2] = 2;
+    out[12] = width & 0xFF;
+    out[13] = width >> 8;
+    out[14] = height & 0xFF;
+    out[15] = height >> 8;
+    out[16] = 32;
+    out[17] = 0x28;
+
+    // Pixels are stored as BGRA
+    for (let i = 0; i < width * height; i++) {
+        const src = i * channels;
+        const dst = 18 + i * 4;
+        const gray = channels < 3;
+        out[dst + 0] = data[src + (gray ? 0 : 2)] >> shift;
+        out[dst + 1] = data[src + (gray ? 0 : 1)] >> shift;
+        out[dst + 2] = data[src] >> shift;
+        out[dst + 3] = channels === 4 || channels === 2 ? data[src + channels - 1] >> shift : 255;
+    }
+    return out;
+}
+
+/**
+ * Big-endian binary writer.
+ */
+class BinaryWriter {
+    private chunks: Uint8Array[] = [];
+    private length: number = 0;
+
+    writeUint8(value: number) {
+        this.writeBytes(new Uint8Array([value]));
+    }
+
+    writeUint32(value: number) {
+        const bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setUint32(0, value, false);
+        this.writeBytes(bytes);
+    }
+
+    writeString(value: string) {
+        this.writeBytes(new TextEncoder().encode(value));
+    }
+
+    writeBytes(bytes: Uint8Array) {
+        this.chunks.push(bytes);
+        this.length += bytes.length;
+    }
+
+    finish(): Uint8Array {
+        const out = new Uint8Array(this.length);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            out.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return out;
+    }
+}
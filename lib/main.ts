@@ -6,4 +6,12 @@
 */
 export * as Puppet from './puppet'
 export * as INP from './inp'
-export * as Renderer from './renderer/renderer'
\ No newline at end of file
+export * as Renderer from './renderer/renderer'
+export * as Validation from './validation'
+export * as Usage from './usage'
+export * as Node from './nodes/node'
+export * as Drawable from './nodes/drawable'
+export * as Composite from './nodes/composite'
+export * as PathDeform from './nodes/pathdeform'
+export * as Physics from './nodes/physics'
+export * as Serialiser from './nodes/serialiser'
@@ -4,7 +4,7 @@
     
     Authors: Luna Nielsen
 */
-import { Euler, Matrix4, Vector2, Vector3 } from 'three';
+import { Euler, Matrix4, Quaternion, Vector2, Vector3 } from 'three';
 
 /**
  * Represents a transformation in 2D space.
@@ -22,29 +22,47 @@ export class Transform {
      */
     multiply(other: Transform): Transform {
         let tnew: Transform = new Transform();
-        let strs: Matrix4 = other.trs.multiply(this.trs);
+        tnew.setFromMatrix(new Matrix4().multiplyMatrices(other.trs, this.trs));
+        return tnew;
+    }
+
+    /**
+     * Sets the rotation, scale and translation from a transformation matrix.
+     * Matrices with shear, which a parent's non-uniform scale can give a rotated child, are approximated.
+     * @param matrix - The transformation matrix.
+     * @returns This transform.
+     */
+    setFromMatrix(matrix: Matrix4): Transform {
+        const e = matrix.elements;
+        this.trans.setFromMatrixPosition(matrix);
 
-        // Extract TRS using matrix operations.
-        tnew.trans.setFromMatrixPosition(strs); // Extract translation
-        tnew.rot.applyMatrix4(new Matrix4().extractRotation(strs)); // Extract rotation
-        let scale: Vector3 = new Vector3().setFromMatrixScale(strs); // Extract scale
-        tnew.scale.x = scale.x;
-        tnew.scale.y = scale.y;
-        tnew.trs = strs;
+        if (e[2] === 0 && e[6] === 0 && e[8] === 0 && e[9] === 0) {
+            // Flat in the XY plane; keep flips on the Y axis, the way they are written in puppets
+            const scaleX = Math.hypot(e[0], e[1]);
+            this.rot.set(0, 0, scaleX > 0 ? Math.atan2(e[1], e[0]) : 0);
+            this.scale.set(scaleX, scaleX > 0 ? (e[0] * e[5] - e[1] * e[4]) / scaleX : Math.hypot(e[4], e[5]));
+        } else {
+            const position = new Vector3();
+            const quaternion = new Quaternion();
+            const scale = new Vector3();
+            matrix.decompose(position, quaternion, scale);
+            this.rot.setFromEuler(new Euler().setFromQuaternion(quaternion, Euler.DefaultOrder));
+            this.scale.set(scale.x, scale.y);
+        }
 
-        return tnew;
+        this.trs = matrix.clone();
+        return this;
     }
 
     /**
      * Updates the internal transformation matrix based on the current rotation, scale, and translation values.
      */
     update(): void {
-        const mat4: Matrix4 = new Matrix4().identity();
-        let translate = mat4.makeTranslation(this.trans.x, this.trans.y, this.trans.z); // Create translation matrix
-        let rotation = mat4.makeRotationFromEuler(new Euler(this.rot.x, this.rot.y, this.rot.z, Euler.DefaultOrder)); // Create rotation matrix
-        let scale = mat4.makeScale(this.scale.x, this.scale.y, 1); // Create scale matrix
+        let translate = new Matrix4().makeTranslation(this.trans.x, this.trans.y, this.trans.z); // Create translation matrix
+        let rotation = new Matrix4().makeRotationFromEuler(new Euler(this.rot.x, this.rot.y, this.rot.z, Euler.DefaultOrder)); // Create rotation matrix
+        let scale = new Matrix4().makeScale(this.scale.x, this.scale.y, 1); // Create scale matrix
 
-        this.trs = scale.multiply(rotation).multiply(translate); // Combine matrices to form TRS
+        this.trs = translate.multiply(rotation).multiply(scale); // Combine matrices to form TRS
     }
 
     /**
@@ -57,9 +75,9 @@ export class Transform {
 }
 
 /**
- * Serializes the Transform object into a JSON string.
+ * Serializes the Transform object into a JSON object.
  * @param transform - The Transform object to serialize.
- * @returns The JSON string representing the serialized Transform object.
+ * @returns The JSON object representing the serialized Transform object.
  */
 export function serializeTransform(transform: Transform) {
     const data = {
@@ -68,12 +86,12 @@ export function serializeTransform(transform: Transform) {
         trans: transform.trans.toArray() // Convert trans to an array
     };
 
-    return JSON.stringify(data);
+    return data;
 }
 
 /**
- * Deserializes a JSON string into a Transform object.
- * @param json - The JSON string to deserialize.
+ * Deserializes a JSON object into a Transform object.
+ * @param data - The JSON object to deserialize.
  * @returns A new Transform object representing the deserialized data.
  */
 export function deserializeTransform(data: any) {
@@ -410,13 +410,13 @@ class MeshData {
      */
     serialize(): any {
         const data: any = {
-            verts: this.vertices.map((v) => [v.x, v.y]),
+            verts: this.vertices.flatMap((v) => [v.x, v.y]),
             indices: this.indices,
             origin: this.origin!.toArray(),
         };
 
         if (this.uvs && this.uvs.length > 0) {
-            data.uvs = this.uvs.map((uv) => [uv.x, uv.y]);
+            data.uvs = this.uvs.flatMap((uv) => [uv.x, uv.y]);
         }
 
         if (this.gridAxes && this.gridAxes.length === 2) {
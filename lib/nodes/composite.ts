@@ -0,0 +1,171 @@
+/*
+    Copyright © 2020, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+import { Node, BlendMode, GpuResources } from "./node";
+import { MaskData } from "./drawable";
+import { MaskRenderer } from "../renderer/masking";
+import { applyBlendMode, blendingShaderChunk, blendingUniforms, blendModeNeedsFramebuffer, copyBackdrop } from "../renderer/blending";
+
+const compositeVertexShader = `
+varying vec2 vUv;
+
+void main() {
+    // The quad covers the whole viewport
+    vUv = position.xy * 0.5 + 0.5;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const compositeFragmentShader = `
+uniform sampler2D map;
+uniform float opacity;
+uniform vec3 tint;
+uniform vec3 screenTint;
+varying vec2 vUv;
+
+${blendingShaderChunk}
+
+void main() {
+    vec4 color = texture2D(map, vUv);
+    if (color.a <= 0.0) discard;
+
+    // The offscreen target holds premultiplied colors
+    vec3 rgb = color.rgb / color.a;
+    rgb *= tint;
+    rgb = 1.0 - (1.0 - rgb) * (1.0 - screenTint);
+    gl_FragColor = inBlend(vec4(rgb, color.a * opacity));
+}
+`;
+
+/**
+ * Represents a composite node, its children are rendered offscreen and drawn as a single layer.
+ */
+export class Composite extends Node {
+    // Serialised models
+    type: string = "Composite";
+    blend_mode: BlendMode = BlendMode.Normal;
+    opacity: number = 1;
+    tint: THREE.Color = new THREE.Color(1, 1, 1);
+    screenTint: THREE.Color = new THREE.Color(0, 0, 0);
+    mask_threshold: number = 0.5;
+    masks: MaskData[] = [];
+
+    // Non-serialisables
+    contents: THREE.Scene = new THREE.Scene();                     // Offscreen scene holding the children
+    contentRoot: THREE.Object3D = new THREE.Object3D();             // Follows the composite's world transform
+    target: THREE.WebGLRenderTarget | null = null;                  // Offscreen target the children are rendered to
+    maskRenderer: MaskRenderer = new MaskRenderer(this);
+
+    constructor() {
+        super();
+        this.contentRoot.matrixAutoUpdate = false;
+        this.contents.add(this.contentRoot);
+    }
+
+    /**
+     * Children are added to the offscreen scene instead of the composite quad.
+     */
+    childContainer(): THREE.Object3D {
+        return this.contentRoot;
+    }
+
+    /**
+     * Called on render, creates the quad the composite gets drawn as.
+     */
+    protected onCreateMesh() {
+        super.onCreateMesh();
+
+        const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), new THREE.MeshBasicMaterial());
+        quad.frustumCulled = false;
+        quad.onBeforeRender = (renderer, scene, camera) => {
+            this.renderContents(renderer, camera);
+            this.maskRenderer.begin(renderer, scene, camera, quad.material as THREE.Material);
+        };
+        this.threeObj = quad;
+    }
+
+    /**
+     * Called on render, creates the material of the composite quad.
+     */
+    protected onCreateMaterials() {
+        if (this.threeObj instanceof THREE.Mesh) {
+            const material = new THREE.ShaderMaterial({
+                uniforms: {
+                    map: { value: null },
+                    opacity: { value: this.opacity },
+                    tint: { value: this.tint },
+                    screenTint: { value: this.screenTint },
+                    ...blendingUniforms(),
+                },
+                vertexShader: compositeVertexShader,
+                fragmentShader: compositeFragmentShader,
+                transparent: true,
+                depthTest: false,
+                depthWrite: false,
+            });
+            applyBlendMode(material, this.blend_mode);
+
+            this.threeObj.material = material;
+        }
+        super.onCreateMaterials();
+    }
+
+    gpuResources(): GpuResources {
+        const resources = super.gpuResources();
+        const masking = this.maskRenderer.gpuResources();
+        resources.geometries.push(...masking.geometries);
+        resources.materials.push(...masking.materials);
+        if (this.target !== null) resources.renderTargets.push(this.target);
+        return resources;
+    }
+
+    dispose() {
+        super.dispose();
+        this.target = null;
+    }
+
+    updateTransform() {
+        super.updateTransform();
+        this.threeObj.visible = this.enabled;
+    }
+
+    /**
+     * Renders the children into the offscreen target, right before the quad is drawn.
+     */
+    private renderContents(renderer: THREE.WebGLRenderer, camera: THREE.Camera) {
+        if (!(this.threeObj instanceof THREE.Mesh)) return;
+
+        // Match the size of whatever we are being drawn into
+        const current = renderer.getRenderTarget();
+        const size = current !== null ?
+            new THREE.Vector2(current.width, current.height) :
+            renderer.getDrawingBufferSize(new THREE.Vector2());
+        if (this.target === null) {
+            this.target = new THREE.WebGLRenderTarget(size.x, size.y, { stencilBuffer: true });
+        } else if (this.target.width !== size.x || this.target.height !== size.y) {
+            this.target.setSize(size.x, size.y);
+        }
+
+        // Place the children where the composite is
+        this.contentRoot.matrix.copy(this.threeObj.matrixWorld);
+        this.contentRoot.matrixWorldNeedsUpdate = true;
+
+        // Render into a transparent target
+        const clearColor = renderer.getClearColor(new THREE.Color());
+        const clearAlpha = renderer.getClearAlpha();
+        renderer.setRenderTarget(this.target);
+        renderer.setClearColor(0x000000, 0);
+        renderer.clear();
+        renderer.render(this.contents, camera);
+        renderer.setClearColor(clearColor, clearAlpha);
+        renderer.setRenderTarget(current);
+
+        const material = this.threeObj.material as THREE.ShaderMaterial;
+        material.uniforms.map.value = this.target.texture;
+        material.uniforms.opacity.value = this.opacity;
+        if (blendModeNeedsFramebuffer(this.blend_mode)) copyBackdrop(renderer, material);
+    }
+}
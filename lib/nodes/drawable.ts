@@ -1,15 +1,60 @@
 import { MeshData } from "../meshdata";
 import * as THREE from "three";
-import { Node, MaskingMode, NodeUuid, BlendMode } from "./node";
-import { blend_modes } from "../renderer/renderer";
+import { Node, MaskingMode, NodeUuid, BlendMode, GpuResources } from "./node";
+import { applyBlendMode, blendingShaderChunk, blendingUniforms, blendModeNeedsFramebuffer, copyBackdrop } from "../renderer/blending";
+import { MaskRenderer } from "../renderer/masking";
+import { lightingShaderChunk } from "../renderer/lighting";
 import { Puppet } from "../puppet";
 
+const partVertexShader = `
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+const partFragmentShader = `
+uniform sampler2D albedo;
+uniform sampler2D emissive;
+uniform sampler2D bumpmap;
+uniform float opacity;
+uniform float emissionStrength;
+uniform vec3 tint;
+uniform vec3 screenTint;
+varying vec2 vUv;
+
+${lightingShaderChunk}
+${blendingShaderChunk}
+
+void main() {
+    vec4 color = texture2D(albedo, vUv);
+    if (color.a <= 0.0) discard;
+
+    // Light the albedo, flat unless there's a bump map
+    vec3 normal = vec3(0.0, 0.0, 1.0);
+#ifdef HAS_BUMPMAP
+    normal = normalize(texture2D(bumpmap, vUv).rgb * 2.0 - 1.0);
+#endif
+    vec3 light = inAmbientLight + inLightColor * max(dot(normal, inLightDirection), 0.0);
+
+    vec3 rgb = color.rgb * tint * light;
+    rgb = 1.0 - (1.0 - rgb) * (1.0 - screenTint);
+
+#ifdef HAS_EMISSIVE
+    rgb += texture2D(emissive, vUv).rgb * emissionStrength * inEmissionBoost;
+#endif
+    gl_FragColor = inBlend(vec4(rgb, color.a * opacity));
+}
+`;
+
 /**
  * Representation of Mask Data
  */
 export class MaskData {
     source: NodeUuid = -1;
-    mode: BlendMode = BlendMode.ClipToLower;
+    mode: MaskingMode = MaskingMode.Mask;
 }
 
 /**
@@ -35,9 +80,10 @@ export class Drawable extends Node {
             const offset: THREE.Vector2 = this.mesh.origin ? this.mesh.origin : new THREE.Vector2(0, 0);
             vertices.push(vertex.x + offset.x, vertex.y + offset.y, 0);
         }
+        // Positions get rewritten every frame by the deformation pipeline
         geometry.setAttribute(
             'position',
-            new THREE.BufferAttribute(new Float32Array(vertices), positionNumComponents));
+            new THREE.BufferAttribute(new Float32Array(vertices), positionNumComponents).setUsage(THREE.DynamicDrawUsage));
 
         // Set UVs if available
         if (this.mesh.uvs) {
@@ -56,12 +102,64 @@ export class Drawable extends Node {
         this.threeObj = new THREE.Mesh(geometry, new THREE.MeshNormalMaterial());
     }
 
+    deformVertexCount(): number {
+        return this.mesh.vertices.length;
+    }
+
+    /**
+     * Gets the deform offset of a vertex, accumulated from every deformation source this frame.
+     * @param index - The index of the vertex in the mesh.
+     */
+    deformAt(index: number): THREE.Vector2 | undefined {
+        if (index >= this.offsets.vert_len) return undefined;
+        return (this.puppet as Puppet | null)?.deformBuffer[this.offsets.vert_offset + index];
+    }
+
+    /**
+     * Gets the vertices as they are drawn, in the space of this node with the origin and deform offsets applied.
+     */
+    deformedVertices(): THREE.Vector2[] {
+        const origin: THREE.Vector2 = this.mesh.origin ? this.mesh.origin : new THREE.Vector2(0, 0);
+        return this.mesh.vertices.map((vertex, i) => {
+            const deform = this.deformAt(i);
+            return vertex.clone().add(origin).add(deform ?? new THREE.Vector2(0, 0));
+        });
+    }
+
+    /**
+     * Writes the rest vertices plus their deform offsets into the geometry.
+     */
+    endUpdate() {
+        super.endUpdate();
+        if (!(this.threeObj instanceof THREE.Mesh)) return;
+
+        const geometry: THREE.BufferGeometry = this.threeObj.geometry;
+        const position = geometry.getAttribute('position');
+        if (position === undefined) return;
+
+        // Update the existing attribute in place
+        const origin: THREE.Vector2 = this.mesh.origin ? this.mesh.origin : new THREE.Vector2(0, 0);
+        const count = Math.min(position.count, this.mesh.vertices.length);
+        for (let i = 0; i < count; i++) {
+            const vertex = this.mesh.vertices[i];
+            const deform = this.deformAt(i);
+            position.setXY(i,
+                vertex.x + origin.x + (deform ? deform.x : 0),
+                vertex.y + origin.y + (deform ? deform.y : 0));
+        }
+        position.needsUpdate = true;
+        geometry.computeBoundingSphere();
+    }
+
     /**
      * Called on render, populates a THREE.Object3D materials.
      */
     protected onCreateMaterials() {
         if (this.threeObj instanceof THREE.Mesh && this.threeObj.material) {
-            if (!this.enabled) this.threeObj.material.opacity = 0;
+            if (!this.enabled) {
+                this.threeObj.material.opacity = 0;
+                this.threeObj.visible = false;
+            }
             this.threeObj.material.alphaTest = 0.7;
         }
         super.onCreateMaterials();
@@ -72,34 +170,65 @@ export class Drawable extends Node {
  * Represents a mask with the same properties as a drawable.
  */
 export class Mask extends Drawable {
+    type: string = "Mask";
+
     protected onCreateMaterials(): void {
-        if (this.threeObj instanceof THREE.Mesh) {
-            console.log("mask material xd");
-            const material = new THREE.MeshPhongMaterial({ color: 'white' });
-            material.depthWrite = false;
-            material.stencilWrite = true;
-            material.stencilRef = this.uuid; // TODO: Assign this dynamically
-            material.stencilFunc = THREE.AlwaysStencilFunc;
-            material.stencilZPass = THREE.ReplaceStencilOp;
-    
-            this.threeObj.material = material;
-        }
         super.onCreateMaterials();
+
+        // Masks are only ever drawn into the stencil buffer, by the nodes they mask
+        this.threeObj.visible = false;
     }
 }
 
+/**
+ * The texture slots of a part.
+ */
+export enum TextureUsage {
+    Albedo,
+    Emissive,
+    Bumpmap,
+}
+
 /**
  * Represents a part with additional properties.
  */
 export class Part extends Drawable {
-    textures: number[] = [];
+    type: string = "Part";
+    textures: number[] = [];    // Indexed by TextureUsage
     opacity: number = 1;
+    emissionStrength: number = 1;
     mask_mode: MaskingMode = MaskingMode.Mask;
     mask_threshold: number = 0;
     masked_by: NodeUuid[] = [];
     blend_mode: BlendMode = BlendMode.Normal;
+    tint: THREE.Color = new THREE.Color(1, 1, 1);
+    screenTint: THREE.Color = new THREE.Color(0, 0, 0);
+
+    // Non-serialisables
+    maskRenderer: MaskRenderer = new MaskRenderer(this);
+
+    gpuResources(): GpuResources {
+        const resources = super.gpuResources();
+        const masking = this.maskRenderer.gpuResources();
+        resources.geometries.push(...masking.geometries);
+        resources.materials.push(...masking.materials);
+        return resources;
+    }
+
+    endUpdate() {
+        super.endUpdate();
+        if (this.threeObj instanceof THREE.Mesh && this.threeObj.material instanceof THREE.ShaderMaterial) {
+            this.threeObj.material.uniforms.opacity.value = this.opacity;
+            this.threeObj.material.uniforms.emissionStrength.value = this.emissionStrength;
+        }
+    }
 
     protected onCreateMaterials() {
+        // Lazily loaded textures start decoding once a part uses them, failures go to ImportOptions.onTextureError
+        this.textures.forEach((idx) => {
+            (this.puppet! as Puppet).loadTexture(idx).catch(() => {});
+        });
+
         // Select the textures
         const partTextures: THREE.Texture[] = this.textures.map((idx) => {
             return (this.puppet! as Puppet).textures[idx];
@@ -110,49 +239,44 @@ export class Part extends Drawable {
             // Set material with textures
             let material;
 
-            // Set blending mode
-            let blendModeData = blend_modes.find(modeData => modeData._blendmode === this.blend_mode);
-            if (blendModeData === undefined) blendModeData = { _blendmode: BlendMode.Normal, _constant: THREE.NormalBlending };
-            const { _constant } = blendModeData;
-
             // If there's textures
-            if (partTextures) {
-                // console.log(blendModeData._blendmode.valueOf() + ", " + _constant.valueOf());
-                const texture = partTextures[0]; // Using the first texture as an example
-
-                // Create our material
-                material = new THREE.MeshBasicMaterial({ transparent: true, blending: _constant, map: texture, depthWrite: false });
-                
-                // Write up some stencil logic
-                material.stencilWrite = true;
-                if (this.masks.length > 0) {
-                    // With masks, mask it
-                    material.stencilRef = this.masks.map((mask) => {
-                        return mask.source
-                    })[0];
-                    material.stencilFunc = THREE.EqualStencilFunc;
-                    material.stencilFail = THREE.KeepStencilOp;
-                    material.stencilZFail = THREE.KeepStencilOp;
-                    material.stencilZPass = THREE.KeepStencilOp;
-                } else {
-                    // Without a mask, assume we are the mask
-                    material.depthWrite = false;
-                    material.stencilWrite = true;
-                    material.stencilRef = this.uuid; // TODO: Assign this dynamically
-                    material.stencilFunc = THREE.AlwaysStencilFunc;
-                    material.stencilZPass = THREE.ReplaceStencilOp;
-                    material.stencilFail = THREE.ReplaceStencilOp;
-                    material.stencilZFail = THREE.ReplaceStencilOp;
-                    material.stencilZPass = THREE.ReplaceStencilOp;
-                }
-
-                // TODO: Implement blending properly
-                if (_constant != THREE.NormalBlending) {
-                    // material.opacity = 0;
-                }
+            const albedo = partTextures[TextureUsage.Albedo];
+            const emissive = partTextures[TextureUsage.Emissive];
+            const bumpmap = partTextures[TextureUsage.Bumpmap];
+            if (albedo) {
+                // Create our material, lit by the puppet
+                const defines: { [define: string]: string } = {};
+                if (emissive) defines.HAS_EMISSIVE = '';
+                if (bumpmap) defines.HAS_BUMPMAP = '';
+                material = new THREE.ShaderMaterial({
+                    uniforms: {
+                        albedo: { value: albedo },
+                        emissive: { value: emissive ?? null },
+                        bumpmap: { value: bumpmap ?? null },
+                        opacity: { value: this.opacity },
+                        emissionStrength: { value: this.emissionStrength },
+                        tint: { value: this.tint },
+                        screenTint: { value: this.screenTint },
+                        ...(this.puppet as Puppet).lighting.uniforms,
+                        ...blendingUniforms(),
+                    },
+                    defines: defines,
+                    vertexShader: partVertexShader,
+                    fragmentShader: partFragmentShader,
+                    transparent: true,
+                    depthWrite: false,
+                });
+                applyBlendMode(material, this.blend_mode);
+
+                // Draw the masks first, and let blend modes fixed-function blending can't do see what's under them
+                const partMaterial = material;
+                this.threeObj.onBeforeRender = (renderer, scene, camera) => {
+                    this.maskRenderer.begin(renderer, scene, camera, partMaterial);
+                    if (blendModeNeedsFramebuffer(this.blend_mode)) copyBackdrop(renderer, partMaterial);
+                };
 
             } else {
-                material = new THREE.MeshBasicMaterial({ color: "pink", transparent: true, blending: _constant });
+                material = new THREE.MeshBasicMaterial({ color: "pink", transparent: true });
             }
 
             // Set the material
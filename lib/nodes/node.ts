@@ -8,6 +8,7 @@
 import { Transform } from "../math/transform";
 import * as THREE from "three";
 import { blend_modes } from "../renderer/renderer";
+import { PartOffsets } from "../param";
 
 /**
  * Blending mode.
@@ -44,6 +45,53 @@ export enum BlendMode {
      * (Basically inverse ClipToLower.)
      */
     SliceFromLower,
+    /**
+     * Overlay.
+     */
+    Overlay,
+    /**
+     * Darken.
+     */
+    Darken,
+    /**
+     * Lighten.
+     */
+    Lighten,
+    /**
+     * Color Burn.
+     */
+    ColorBurn,
+    /**
+     * Hard Light.
+     */
+    HardLight,
+    /**
+     * Soft Light.
+     */
+    SoftLight,
+    /**
+     * Difference.
+     */
+    Difference,
+    /**
+     * Exclusion.
+     */
+    Exclusion,
+    /**
+     * Subtract.
+     * Subtracts the drawable from the lower rendered area.
+     */
+    Subtract,
+    /**
+     * Inverse.
+     * Inverts the lower rendered area where the drawable is.
+     */
+    Inverse,
+    /**
+     * Destination In.
+     * Keeps the lower rendered area only where the drawable is.
+     */
+    DestinationIn,
 }
 
 /**
@@ -56,6 +104,7 @@ export enum MaskingMode {
 
 /**
  * Represents the joint binding data.
+ * `bind_data[i]` holds the indices of the vertices of `bound_to` that follow joint `i`.
  */
 export class JointBindingData {
     bound_to: NodeUuid = -1;
@@ -67,12 +116,21 @@ export class JointBindingData {
  */
 export type NodeUuid = number;
 
+/**
+ * GPU resources owned by a node.
+ */
+export interface GpuResources {
+    geometries: THREE.BufferGeometry[];
+    materials: THREE.Material[];
+    renderTargets: THREE.WebGLRenderTarget[];
+}
+
 /**
  * Base type for all nodes.
  */
 export class Node {
     // Serialised models
-    type: string = "";
+    type: string = "Node";
     uuid: NodeUuid = -1;
     name?: string;
     enabled: boolean = true;
@@ -84,9 +142,111 @@ export class Node {
     puppet: any = null;                                             // Puppet
     threeObj: THREE.Object3D | THREE.Mesh = new THREE.Object3D();   // three.JS Node for rendering.
     parent: Node | null = null;                                     // Track the parent for easy traversal.
-    lockToRoot: boolean = false;                                    // Whether to lock to root
+    lockToRoot: boolean = false;                                    // Whether to follow the root node instead of the parent
     actualTransform: Transform = new Transform();                   // Track absolute transform  
     actualZsort: number = 0;                                        // Track absolute z-index
+    offsets: PartOffsets = new PartOffsets();                       // Offsets applied by parameters
+
+    // Cached world matrix, and what it was computed from
+    private world: THREE.Matrix4 = new THREE.Matrix4();
+    private worldVersion: number = 0;
+    private worldKey: number[] = [];
+    private worldReference: Node | null = null;
+    private worldReferenceVersion: number = -1;
+    private appliedObject: THREE.Object3D | null = null;
+    private appliedVersion: number = -1;
+    private appliedParentVersion: number = -1;
+
+    /**
+     * Gets the local transform of this node with the parameter offsets applied.
+     */
+    offsetTransform(): Transform {
+        const offset = this.offsets.trans_offset;
+        const result = new Transform();
+        result.trans = this.transform.trans.clone().add(offset.trans);
+        result.rot = this.transform.rot.clone().add(offset.rot);
+        result.scale = this.transform.scale.clone().multiply(offset.scale);
+        result.update();
+        return result;
+    }
+
+    /**
+     * Gets the node this node's transform is relative to: the root node when locked to root, otherwise the parent.
+     */
+    private transformReference(): Node | null {
+        if (!this.lockToRoot) return this.parent;
+        let root: Node = this;
+        while (root.parent !== null) root = root.parent;
+        return root === this ? null : root;
+    }
+
+    /**
+     * Gets the values the local transform is made from, to tell when it changed.
+     */
+    private localKey(): number[] {
+        const offset = this.offsets.trans_offset;
+        return [
+            ...this.transform.trans.toArray(), ...this.transform.rot.toArray(), ...this.transform.scale.toArray(),
+            ...offset.trans.toArray(), ...offset.rot.toArray(), ...offset.scale.toArray(),
+        ];
+    }
+
+    /**
+     * Recomputes the world matrix if the transform of this node, or of a node it is relative to, changed.
+     */
+    private updateWorld(): THREE.Matrix4 {
+        const reference = this.transformReference();
+        const referenceWorld = reference !== null ? reference.updateWorld() : null;
+        const key = this.localKey();
+
+        const dirty = this.worldVersion === 0 ||
+            reference !== this.worldReference ||
+            (reference !== null && reference.worldVersion !== this.worldReferenceVersion) ||
+            key.some((value, i) => value !== this.worldKey[i]);
+        if (dirty) {
+            const local = this.offsetTransform().matrix();
+            if (referenceWorld !== null) {
+                this.world.multiplyMatrices(referenceWorld, local);
+            } else {
+                this.world.copy(local);
+            }
+            this.worldKey = key;
+            this.worldReference = reference;
+            this.worldReferenceVersion = reference !== null ? reference.worldVersion : -1;
+            this.worldVersion++;
+        }
+        return this.world;
+    }
+
+    /**
+     * Gets the matrix taking points from the space of this node to the space of the puppet,
+     * the space of the three.js object the puppet was added to.
+     * The matrix is only recomputed when the transform of this node or of one of its parents changed.
+     */
+    worldMatrix(): THREE.Matrix4 {
+        return this.updateWorld().clone();
+    }
+
+    /**
+     * Transforms a point from the space of this node to the space of the puppet.
+     * @param point - The point in the space of this node.
+     * @returns The point in the space of the puppet.
+     */
+    localToWorld(point: THREE.Vector2): THREE.Vector2 {
+        const result = new THREE.Vector3(point.x, point.y, 0).applyMatrix4(this.updateWorld());
+        return new THREE.Vector2(result.x, result.y);
+    }
+
+    /**
+     * Transforms a point from the space of the puppet to the space of this node.
+     * @param point - The point in the space of the puppet.
+     * @returns The point in the space of this node.
+     */
+    worldToLocal(point: THREE.Vector2): THREE.Vector2 {
+        const inverse = this.updateWorld().clone().invert();
+        const result = new THREE.Vector3(point.x, point.y, 0).applyMatrix4(inverse);
+        return new THREE.Vector2(result.x, result.y);
+    }
 
     /**
      * Calculates the transform of this node.
@@ -94,32 +254,43 @@ export class Node {
     updateTransform() {
         // Update transform
         this.transform.update();
+        const zsort = this.zsort + this.offsets.zsort_offset;
+        this.actualZsort = this.parent == null ? zsort : this.parent.actualZsort + zsort;
+        this.threeObj.renderOrder = -this.actualZsort;
 
-        // Update the absolute transform
-        if (this.parent == null) {
-            // No parent, use current transform
-            this.actualTransform = this.transform;
-            this.actualZsort = this.zsort;
+        // The object of a node locked to root also has to make up for its parent moving
+        const world = this.updateWorld();
+        const parentWorld = this.parent !== null ? this.parent.updateWorld() : null;
+        const parentVersion = this.parent !== null ? this.parent.worldVersion : -1;
+        if (this.appliedVersion === this.worldVersion && this.appliedParentVersion === parentVersion && this.appliedObject === this.threeObj) return;
+        this.actualTransform = new Transform().setFromMatrix(world);
+
+        // Update the three object transform, it sits under the parent's object even when locked to root
+        const matrix = this.threeObj.matrix;
+        if (this.lockToRoot && parentWorld !== null) {
+            matrix.copy(parentWorld).invert().multiply(world);
         } else {
-            // Otherwise, translate, rotate & scale current transform to the parent's
-            const newTransform = new Transform();
-            newTransform.rot = this.parent.actualTransform.rot.clone().add(this.transform.rot);
-            newTransform.trans = this.parent.actualTransform.trans.clone().add(this.transform.trans);
-            newTransform.scale = new THREE.Vector2(this.parent.actualTransform.scale.x * this.transform.scale.x,
-                this.parent.actualTransform.scale.y * this.transform.scale.y);
-
-            // Set the transform
-            this.actualTransform = newTransform;
-            this.actualZsort = this.parent.actualZsort + this.zsort;
+            matrix.copy(this.offsetTransform().matrix());
         }
+        this.threeObj.matrixAutoUpdate = false;
+        this.threeObj.matrixWorldNeedsUpdate = true;
+        this.appliedObject = this.threeObj;
+        this.appliedVersion = this.worldVersion;
+        this.appliedParentVersion = parentVersion;
+    }
 
-        // Update the three object transform
-        this.threeObj.position.set(this.transform.trans.x, this.transform.trans.y, this.transform.trans.z);  
-        this.threeObj.scale.set(this.transform.scale.x, this.transform.scale.y, 1); 
-        this.threeObj.rotation.x = this.transform.rot.x;
-        this.threeObj.rotation.y = this.transform.rot.y;
-        this.threeObj.rotation.z = this.transform.rot.z;
-        this.threeObj.renderOrder = -this.actualZsort;
+    /**
+     * Gets the amount of deformable vertices this node needs in the puppet's deform buffer.
+     */
+    deformVertexCount(): number {
+        return 0;
+    }
+
+    /**
+     * Gets the three.JS object the children of this node are added to.
+     */
+    childContainer(): THREE.Object3D {
+        return this.threeObj;
     }
 
     /**
@@ -139,6 +310,11 @@ export class Node {
         this.updateTransform();
     }
 
+    /**
+     * Called after every node of the puppet has been updated.
+     */
+    endUpdate() {}
+
     /**
      * Called on render.
      */
@@ -146,14 +322,42 @@ export class Node {
         this.onCreateMesh();
         this.onCreateMaterials();
     }
-}
 
+    /**
+     * Creates the three.js objects of this node and its children, and adds them under an object.
+     * @param container - The object to add the object of this node to.
+     * @returns The three.js object of this node.
+     */
+    createTree(container: THREE.Object3D): THREE.Object3D {
+        this.create();
+        this.update();
+        container.add(this.threeObj);
+        this.children.forEach((child) => child.createTree(this.childContainer()));
+        return this.threeObj;
+    }
 
-/**
- * Represents a path deform node.
- */
-export class PathDeform extends Node {
-    joints: THREE.Vector2[] = [];
-    bindings: JointBindingData[] = [];
+    /**
+     * Gets the GPU resources this node owns, not counting its children.
+     */
+    gpuResources(): GpuResources {
+        const resources: GpuResources = { geometries: [], materials: [], renderTargets: [] };
+        if (this.threeObj instanceof THREE.Mesh) {
+            resources.geometries.push(this.threeObj.geometry);
+            resources.materials.push(...(Array.isArray(this.threeObj.material) ? this.threeObj.material : [this.threeObj.material]));
+        }
+        return resources;
+    }
+
+    /**
+     * Frees the GPU resources of this node, not counting its children, and takes it out of the three.js scene.
+     * Textures belong to the puppet, see Puppet.dispose.
+     */
+    dispose() {
+        const resources = this.gpuResources();
+        resources.geometries.forEach((geometry) => geometry.dispose());
+        resources.materials.forEach((material) => material.dispose());
+        resources.renderTargets.forEach((target) => target.dispose());
+        this.threeObj.removeFromParent();
+    }
 }
 
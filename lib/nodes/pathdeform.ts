@@ -0,0 +1,100 @@
+/*
+    Copyright © 2020, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+import { Node, JointBindingData } from "./node";
+import { Drawable } from "./drawable";
+import { Transform } from "../math/transform";
+
+/**
+ * Represents a path deform node.
+ * The joints form a chain in the node's space, the vertices bound to them follow when they move.
+ * The joints are deformable like mesh vertices, so parameters can move them through deform bindings.
+ */
+export class PathDeform extends Node {
+    type: string = "PathDeform";
+    joints: THREE.Vector2[] = [];
+    bindings: JointBindingData[] = [];
+
+    deformVertexCount(): number {
+        return this.joints.length;
+    }
+
+    /**
+     * Gets the current position of a joint in the path's space, with its deform offset applied.
+     * @param index - The index of the joint.
+     */
+    jointAt(index: number): THREE.Vector2 {
+        const joint = this.joints[index].clone();
+        const deform = this.puppet?.deformBuffer[this.offsets.vert_offset + index];
+        return deform !== undefined ? joint.add(deform) : joint;
+    }
+
+    /**
+     * Moves the bound vertices along with the joints.
+     * The movement is written into the puppet's deform buffer, on top of the parameter deformation.
+     */
+    deform() {
+        if (!this.enabled || this.joints.length === 0 || this.puppet === null) return;
+
+        // Where the path is now, and where it would be without its own offsets
+        const current = this.worldMatrix();
+        const rest = current.clone()
+            .multiply(this.offsetTransform().matrix().clone().invert())
+            .multiply(matrixOf(this.transform));
+
+        for (const binding of this.bindings) {
+            const drawable: Node | undefined = this.puppet.findNode(binding.bound_to);
+            if (!(drawable instanceof Drawable)) continue;
+
+            // Bring the joints into the space of the drawable
+            const toDrawable = drawable.worldMatrix().invert();
+            const currentToDrawable = toDrawable.clone().multiply(current);
+            const restToDrawable = toDrawable.clone().multiply(rest);
+            const restJoints = this.joints.map((joint) => transformPoint(joint, restToDrawable));
+            const deltas = this.joints.map((_, i) => transformPoint(this.jointAt(i), currentToDrawable).sub(restJoints[i]));
+
+            this.deformBound(drawable, binding, restJoints, deltas);
+        }
+    }
+
+    /**
+     * Weights every bound vertex against its segment of the joint chain.
+     */
+    private deformBound(drawable: Drawable, binding: JointBindingData, restJoints: THREE.Vector2[], deltas: THREE.Vector2[]) {
+        const origin = drawable.mesh.origin ? drawable.mesh.origin : new THREE.Vector2(0, 0);
+
+        binding.bind_data.forEach((vertices, joint) => {
+            if (joint >= restJoints.length) return;
+
+            // The segment starting at the joint, or ending at it for the last joint
+            const start = joint < restJoints.length - 1 ? joint : Math.max(joint - 1, 0);
+            const end = Math.min(start + 1, restJoints.length - 1);
+            const segment = restJoints[end].clone().sub(restJoints[start]);
+            const segmentLength = segment.lengthSq();
+
+            for (const index of vertices) {
+                const target = drawable.deformAt(index);
+                if (target === undefined) continue;
+
+                // Project the vertex onto the segment to find how much each end affects it
+                const vertex = drawable.mesh.vertices[index].clone().add(origin);
+                const t = segmentLength > 0 ?
+                    THREE.MathUtils.clamp(vertex.sub(restJoints[start]).dot(segment) / segmentLength, 0, 1) : 0;
+                target.add(deltas[start].clone().lerp(deltas[end], t));
+            }
+        });
+    }
+}
+
+function matrixOf(transform: Transform): THREE.Matrix4 {
+    transform.update();
+    return transform.matrix().clone();
+}
+
+function transformPoint(point: THREE.Vector2, matrix: THREE.Matrix4): THREE.Vector2 {
+    const result = new THREE.Vector3(point.x, point.y, 0).applyMatrix4(matrix);
+    return new THREE.Vector2(result.x, result.y);
+}
@@ -0,0 +1,257 @@
+/*
+    Inochi2D Simple Physics
+
+    Copyright © 2020, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { Matrix4, Vector2, Vector3 } from "three";
+import { Node } from "./node";
+import { Param } from "../param";
+
+/**
+ * Fixed timestep the physics are simulated at, in seconds.
+ */
+const PHYSICS_TIMESTEP = 0.01;
+
+/**
+ * Maximum amount of steps simulated in a single update, to avoid spiralling after a long stall.
+ */
+const PHYSICS_MAX_STEPS = 10;
+
+/**
+ * The physics model of a SimplePhysics node.
+ */
+export enum PhysicsModel {
+    /**
+     * Rigid pendulum.
+     */
+    Pendulum = "Pendulum",
+    /**
+     * Pendulum on a spring, which can also stretch.
+     */
+    SpringPendulum = "SpringPendulum",
+}
+
+/**
+ * How the physics output is mapped to the parameter.
+ */
+export enum ParamMapMode {
+    /**
+     * X is the angle of the pendulum, Y is its relative length.
+     */
+    AngleLength = "AngleLength",
+    /**
+     * X and Y are the relative position of the bob.
+     */
+    XY = "XY",
+}
+
+/**
+ * Puppet-wide physics settings.
+ */
+export class PuppetPhysics {
+    pixelsPerMeter: number = 1000;
+    gravity: number = 9.8;
+}
+
+/**
+ * A simulated physics system, in puppet space.
+ */
+interface PhysicsSystem {
+    /**
+     * Position of the bob.
+     */
+    bob: Vector2;
+
+    /**
+     * Advances the simulation by a timestep.
+     * @param h - The timestep, in seconds.
+     * @param anchor - The current anchor position.
+     */
+    tick(h: number, anchor: Vector2): void;
+}
+
+/**
+ * Rigid pendulum hanging from the anchor.
+ */
+class Pendulum implements PhysicsSystem {
+    bob: Vector2;
+    private angle: number = 0;
+    private dAngle: number = 0;
+
+    constructor(private physics: SimplePhysics, anchor: Vector2) {
+        this.bob = new Vector2(anchor.x, anchor.y + physics.getLength());
+    }
+
+    tick(h: number, anchor: Vector2): void {
+        // Compute the angle against the updated anchor position
+        const dBob = this.bob.clone().sub(anchor);
+        this.angle = Math.atan2(-dBob.x, dBob.y);
+
+        // Integrate
+        const lengthRatio = this.physics.getGravity() / this.physics.getLength();
+        const critDamp = 2 * Math.sqrt(lengthRatio);
+        const ddAngle = -lengthRatio * Math.sin(this.angle) - this.dAngle * this.physics.angle_damping * critDamp;
+        this.dAngle += ddAngle * h;
+        this.angle += this.dAngle * h;
+
+        // Update the bob position at the new angle
+        this.bob.set(-Math.sin(this.angle), Math.cos(this.angle)).multiplyScalar(this.physics.getLength()).add(anchor);
+    }
+}
+
+/**
+ * Pendulum on a spring, which swings and stretches.
+ */
+class SpringPendulum implements PhysicsSystem {
+    bob: Vector2;
+    private dBob: Vector2 = new Vector2();
+
+    constructor(private physics: SimplePhysics, anchor: Vector2) {
+        this.bob = new Vector2(anchor.x, anchor.y + physics.getLength());
+    }
+
+    tick(h: number, anchor: Vector2): void {
+        // These are normalized vs. mass
+        const springKsqrt = this.physics.frequency * 2 * Math.PI;
+        const springK = springKsqrt * springKsqrt;
+        const gravity = this.physics.getGravity();
+        const restLength = this.physics.getLength() - gravity / springK;
+
+        const offPos = this.bob.clone().sub(anchor);
+        const dist = offPos.length();
+        const offPosNorm = dist > 0 ? offPos.clone().divideScalar(dist) : new Vector2(0, 1);
+
+        const lengthRatio = gravity / this.physics.getLength();
+        const critDampAngle = 2 * Math.sqrt(lengthRatio);
+        const critDampLength = 2 * springKsqrt;
+
+        // Gravity and spring force
+        const ddBob = new Vector2(0, gravity).sub(offPosNorm.clone().multiplyScalar((dist - restLength) * springK));
+
+        // Damp the angular and length velocities separately, in the frame of the spring
+        const dBobRot = new Vector2(
+            this.dBob.x * offPosNorm.y - this.dBob.y * offPosNorm.x,
+            this.dBob.y * offPosNorm.y + this.dBob.x * offPosNorm.x
+        );
+        const ddBobRot = new Vector2(
+            -dBobRot.x * this.physics.angle_damping * critDampAngle,
+            -dBobRot.y * this.physics.length_damping * critDampLength
+        );
+        ddBob.x += ddBobRot.x * offPosNorm.y + ddBobRot.y * offPosNorm.x;
+        ddBob.y += ddBobRot.y * offPosNorm.y - ddBobRot.x * offPosNorm.x;
+
+        // Integrate
+        this.dBob.addScaledVector(ddBob, h);
+        this.bob.addScaledVector(this.dBob, h);
+    }
+}
+
+/**
+ * Node that simulates simple physics and drives a parameter with the result.
+ */
+export class SimplePhysics extends Node {
+    // Serialised models
+    type: string = "SimplePhysics";
+    param: number = -1;
+    model_type: PhysicsModel = PhysicsModel.Pendulum;
+    map_mode: ParamMapMode = ParamMapMode.AngleLength;
+    gravity: number = 1;
+    length: number = 100;
+    frequency: number = 1;
+    angle_damping: number = 0.5;
+    length_damping: number = 0.5;
+    output_scale: Vector2 = new Vector2(1, 1);
+
+    // Non-serialisables
+    private system: PhysicsSystem | null = null;
+    private accumulator: number = 0;
+
+    /**
+     * Gets the gravity acceleration in pixels per second squared.
+     */
+    getGravity(): number {
+        const physics: PuppetPhysics = this.puppet?.physics ?? new PuppetPhysics();
+        return this.gravity * physics.gravity * physics.pixelsPerMeter;
+    }
+
+    /**
+     * Gets the length of the pendulum in pixels.
+     */
+    getLength(): number {
+        return Math.max(this.length, 1);
+    }
+
+    /**
+     * Gets the matrix taking points from the space of this node to the space the simulation runs in,
+     * the space of the root node, where Y points down like it does in the puppet file.
+     */
+    private simulationMatrix(): Matrix4 {
+        let root: Node = this;
+        while (root.parent !== null) root = root.parent;
+        return root.worldMatrix().invert().multiply(this.worldMatrix());
+    }
+
+    /**
+     * Gets the anchor of the simulation, the position of the node in the space of the root node.
+     */
+    getAnchor(): Vector2 {
+        const anchor = new Vector3(0, 0, 0).applyMatrix4(this.simulationMatrix());
+        return new Vector2(anchor.x, anchor.y);
+    }
+
+    /**
+     * Resets the simulation to rest.
+     */
+    reset() {
+        this.system = null;
+        this.accumulator = 0;
+    }
+
+    /**
+     * Advances the simulation and writes the output into the bound parameter.
+     * @param deltaSeconds - Time since the last update, in seconds.
+     */
+    updatePhysics(deltaSeconds: number) {
+        const param: Param | undefined = this.puppet?.params.find((param: Param) => param.uuid === this.param);
+        if (!this.enabled || param === undefined) return;
+
+        const anchor = this.getAnchor();
+        if (this.system === null) {
+            this.system = this.model_type === PhysicsModel.SpringPendulum ?
+                new SpringPendulum(this, anchor) :
+                new Pendulum(this, anchor);
+        }
+
+        // Step at a fixed rate
+        this.accumulator = Math.min(this.accumulator + deltaSeconds, PHYSICS_TIMESTEP * PHYSICS_MAX_STEPS);
+        while (this.accumulator >= PHYSICS_TIMESTEP) {
+            this.system.tick(PHYSICS_TIMESTEP, anchor);
+            this.accumulator -= PHYSICS_TIMESTEP;
+        }
+
+        this.updateOutput(param, anchor);
+    }
+
+    private updateOutput(param: Param, anchor: Vector2) {
+        // Rotate the output back into the space of the node, but keep its length global
+        const offset = this.system!.bob.clone().sub(anchor);
+        const relLength = offset.length() / this.getLength();
+        const matrix = this.simulationMatrix().elements;
+        const localAngle = offset.normalize().rotateAround(new Vector2(0, 0), -Math.atan2(matrix[1], matrix[0]));
+
+        const value = new Vector2();
+        switch (this.map_mode) {
+            case ParamMapMode.XY:
+                value.copy(localAngle).multiplyScalar(relLength).sub(new Vector2(0, 1));
+                value.y = -value.y; // Y goes up for params
+                break;
+            case ParamMapMode.AngleLength:
+                value.set(Math.atan2(-localAngle.x, localAngle.y) / Math.PI, relLength);
+                break;
+        }
+
+        param.value.copy(value.multiply(this.output_scale)).clamp(param.min, param.max);
+    }
+}
@@ -1,7 +1,11 @@
-import { deserializeTransform } from "../math/transform";
+import * as THREE from "three";
+import { deserializeTransform, serializeTransform } from "../math/transform";
 import { MeshData } from "../meshdata";
-import { Node, BlendMode, PathDeform } from "./node";
+import { Node, BlendMode, MaskingMode, JointBindingData } from "./node";
+import { PathDeform } from "./pathdeform";
 import { Drawable, Part, Mask, MaskData } from "./drawable";
+import { Composite } from "./composite";
+import { SimplePhysics, PhysicsModel, ParamMapMode } from "./physics";
 
 function deserializeBaseProperties(puppet: any, json: any, node: Node) {
     node.puppet = puppet;
@@ -12,36 +16,50 @@ function deserializeBaseProperties(puppet: any, json: any, node: Node) {
     node.zsort = json.zsort !== undefined ? json.zsort : node.zsort;
     node.transform = json.transform !== undefined ? deserializeTransform(json.transform) : node.transform;
     node.children = json.children !== undefined ? json.children.map((child: any) => deserializeNode(puppet, child, node)) : node.children;
-    node.lockToRoot = json.children !== undefined ? json.lockToRoot : node.lockToRoot;
+    node.lockToRoot = json.lockToRoot !== undefined ? json.lockToRoot : node.lockToRoot;
 
     return node;
 }
 
-function deserializeDrawable(puppet: any, json: any, drawable: Drawable): Drawable {
-    drawable = deserializeBaseProperties(puppet, json, drawable) as Drawable;
-
-    // Deserialize additional properties specific to Drawable
-    drawable.mesh = MeshData.deserialize(json.mesh);
-
-    // Populate the masks
-    drawable.masks = json.masks !== undefined ? json.masks.map((mask: any) => {
+function deserializeMasks(json: any, masks: MaskData[]): MaskData[] {
+    return json.masks !== undefined ? json.masks.map((mask: any) => {
         const maskData : MaskData = new MaskData();
         // Populate mode
         if (mask.mode)
-            switch (json.blend_mode) {
-                case "Mask":
-                    maskData.mode = BlendMode.ClipToLower;
-                    break;
+            switch (mask.mode) {
+                case "DodgeMask":
                 case "Dodge":
-                    maskData.mode = BlendMode.SliceFromLower;
+                    maskData.mode = MaskingMode.Dodge;
                     break;
                 default:
-                    maskData.mode = BlendMode.Normal;
+                    maskData.mode = MaskingMode.Mask;
             }
         // Populate source
         maskData.source = mask.source;
         return maskData
-    }) : drawable.children;
+    }) : masks;
+}
+
+function serializeMasks(masks: MaskData[]): any[] {
+    return masks.map((mask) => ({
+        source: mask.source,
+        mode: mask.mode === MaskingMode.Dodge ? "DodgeMask" : "Mask",
+    }));
+}
+
+function deserializeBlendMode(blend_mode: any): BlendMode {
+    const mode = BlendMode[blend_mode as keyof typeof BlendMode];
+    return mode !== undefined ? mode : BlendMode.Normal;
+}
+
+function deserializeDrawable(puppet: any, json: any, drawable: Drawable): Drawable {
+    drawable = deserializeBaseProperties(puppet, json, drawable) as Drawable;
+
+    // Deserialize additional properties specific to Drawable
+    drawable.mesh = MeshData.deserialize(json.mesh);
+
+    // Populate the masks
+    drawable.masks = deserializeMasks(json, drawable.masks);
 
     return drawable;
 }
@@ -51,33 +69,36 @@ function deserializePart(puppet: any, json: any): Part {
     part = deserializeDrawable(puppet, json, part) as Part;
 
     // Deserialize additional properties specific to Part
-    part.textures = json.textures;
-    part.opacity = json.opacity;
-    part.mask_mode = json.mask_mode;
-    part.mask_threshold = json.mask_threshold;
-    part.masked_by = json.masked_by;
+    part.textures = json.textures !== undefined ? json.textures : part.textures;
+    part.opacity = json.opacity !== undefined ? json.opacity : part.opacity;
+    part.emissionStrength = json.emissionStrength !== undefined ? json.emissionStrength : part.emissionStrength;
+    part.mask_mode = json.mask_mode !== undefined ? json.mask_mode : part.mask_mode;
+    part.mask_threshold = json.mask_threshold !== undefined ? json.mask_threshold : part.mask_threshold;
+    part.masked_by = json.masked_by !== undefined ? json.masked_by : part.masked_by;
+    if (json.tint !== undefined) part.tint.fromArray(json.tint);
+    if (json.screenTint !== undefined) part.screenTint.fromArray(json.screenTint);
 
     if (json.blend_mode)
-        switch (json.blend_mode) {
-            case "Multiply":
-                part.blend_mode = BlendMode.Multiply;
-                break;
-            case "ColorDodge":
-                part.blend_mode = BlendMode.ColorDodge;
-                break;
-            case "LinearDodge":
-                part.blend_mode = BlendMode.LinearDodge;
-                break;
-            case "Screen":
-                part.blend_mode = BlendMode.Screen;
-                break;
-            default:
-                part.blend_mode = BlendMode.Normal;
-        }
+        part.blend_mode = deserializeBlendMode(json.blend_mode);
 
     return part;
 }
 
+function deserializeComposite(puppet: any, json: any): Composite {
+    let composite = new Composite();
+    composite = deserializeBaseProperties(puppet, json, composite) as Composite;
+
+    // Deserialize additional properties specific to Composite
+    if (json.blend_mode)
+        composite.blend_mode = deserializeBlendMode(json.blend_mode);
+    composite.opacity = json.opacity !== undefined ? json.opacity : composite.opacity;
+    if (json.tint !== undefined) composite.tint.fromArray(json.tint);
+    if (json.screenTint !== undefined) composite.screenTint.fromArray(json.screenTint);
+    composite.mask_threshold = json.mask_threshold !== undefined ? json.mask_threshold : composite.mask_threshold;
+    composite.masks = deserializeMasks(json, composite.masks);
+    return composite;
+}
+
 function deserializeMask(puppet: any, json: any): Mask {
     let mask = new Mask();
     mask = deserializeDrawable(puppet, json, mask) as Mask;
@@ -92,11 +113,33 @@ function deserializePathDeform(puppet: any, json: any): PathDeform {
     pathDeform = deserializeBaseProperties(puppet, json, pathDeform) as PathDeform;
 
     // Deserialize additional properties specific to PathDeform
-    pathDeform.joints = json.joints;
-    pathDeform.bindings = json.bindings;
+    pathDeform.joints = json.joints !== undefined ? json.joints.map((joint: number[]) => new THREE.Vector2(joint[0], joint[1])) : pathDeform.joints;
+    pathDeform.bindings = json.bindings !== undefined ? json.bindings.map((binding: any) => {
+        const bindingData = new JointBindingData();
+        bindingData.bound_to = binding.bound_to;
+        bindingData.bind_data = binding.bind_data;
+        return bindingData;
+    }) : pathDeform.bindings;
     return pathDeform;
 }
 
+function deserializeSimplePhysics(puppet: any, json: any): SimplePhysics {
+    let physics = new SimplePhysics();
+    physics = deserializeBaseProperties(puppet, json, physics) as SimplePhysics;
+
+    // Deserialize additional properties specific to SimplePhysics
+    physics.param = json.param !== undefined ? json.param : physics.param;
+    physics.model_type = json.model_type === PhysicsModel.SpringPendulum ? PhysicsModel.SpringPendulum : PhysicsModel.Pendulum;
+    physics.map_mode = json.map_mode === ParamMapMode.XY ? ParamMapMode.XY : ParamMapMode.AngleLength;
+    physics.gravity = json.gravity !== undefined ? json.gravity : physics.gravity;
+    physics.length = json.length !== undefined ? json.length : physics.length;
+    physics.frequency = json.frequency !== undefined ? json.frequency : physics.frequency;
+    physics.angle_damping = json.angle_damping !== undefined ? json.angle_damping : physics.angle_damping;
+    physics.length_damping = json.length_damping !== undefined ? json.length_damping : physics.length_damping;
+    if (json.output_scale !== undefined) physics.output_scale.fromArray(json.output_scale);
+    return physics;
+}
+
 function deserializeCustomNode(puppet: any, json: any): Node {
     let node = new Node();
     node = deserializeBaseProperties(puppet, json, node);
@@ -118,9 +161,15 @@ export function deserializeNode(puppet: any, json: any, parent: Node | null = nu
         case "Mask":
             result = deserializeMask(puppet, json);
             break;
+        case "Composite":
+            result = deserializeComposite(puppet, json);
+            break;
         case "PathDeform":
             result = deserializePathDeform(puppet, json);
             break;
+        case "SimplePhysics":
+            result = deserializeSimplePhysics(puppet, json);
+            break;
         default:
             result = deserializeCustomNode(puppet, json);
             break;
@@ -129,14 +178,12 @@ export function deserializeNode(puppet: any, json: any, parent: Node | null = nu
     // Set the parent
     result.parent = parent;
 
-    // Add this node to the puppet
-    puppet.nodes.push(result);
-
     return result;
 }
 
 /**
  * Serializes a Node object into a JSON object with the specified properties.
+ * This is the exact inverse of deserializeNode.
  * @param node - The Node object to serialize.
  * @returns The serialized JSON object.
  */
@@ -148,25 +195,54 @@ export function serializeNode(node: Node): any {
     data.name = node.name;
     data.enabled = node.enabled;
     data.zsort = node.zsort;
-    data.transform = node.transform;
+    data.transform = serializeTransform(node.transform);
     data.children = node.children.map(child => serializeNode(child));
     data.lockToRoot = node.lockToRoot;
 
     if (node instanceof Drawable) {
-        data.mesh = node.mesh;
+        data.mesh = node.mesh.serialize();
+        data.masks = serializeMasks(node.masks);
     }
 
     if (node instanceof Part) {
         data.textures = node.textures;
         data.opacity = node.opacity;
+        data.emissionStrength = node.emissionStrength;
         data.mask_mode = node.mask_mode;
         data.mask_threshold = node.mask_threshold;
         data.masked_by = node.masked_by;
+        data.blend_mode = BlendMode[node.blend_mode];
+        data.tint = node.tint.toArray();
+        data.screenTint = node.screenTint.toArray();
+    }
+
+    if (node instanceof Composite) {
+        data.blend_mode = BlendMode[node.blend_mode];
+        data.opacity = node.opacity;
+        data.tint = node.tint.toArray();
+        data.screenTint = node.screenTint.toArray();
+        data.mask_threshold = node.mask_threshold;
+        data.masks = serializeMasks(node.masks);
     }
 
     if (node instanceof PathDeform) {
-        data.joints = node.joints;
-        data.bindings = node.bindings;
+        data.joints = node.joints.map((joint) => joint.toArray());
+        data.bindings = node.bindings.map((binding) => ({
+            bound_to: binding.bound_to,
+            bind_data: binding.bind_data,
+        }));
+    }
+
+    if (node instanceof SimplePhysics) {
+        data.param = node.param;
+        data.model_type = node.model_type;
+        data.map_mode = node.map_mode;
+        data.gravity = node.gravity;
+        data.length = node.length;
+        data.frequency = node.frequency;
+        data.angle_damping = node.angle_damping;
+        data.length_damping = node.length_damping;
+        data.output_scale = node.output_scale.toArray();
     }
 
     return data;
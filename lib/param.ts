@@ -9,21 +9,82 @@
     Authors: Speykious 
  */
 
-import { Matrix4, Vector2 } from 'three';
+import { Vector2 } from 'three';
+import { Transform } from './math/transform';
 
-enum InterpolateMode {
+/**
+ * How a binding interpolates between its keypoints.
+ */
+export enum InterpolateMode {
+  /**
+   * Straight linear interpolation.
+   */
   Linear = 'linear',
+  /**
+   * Linear interpolation eased in and out of every keypoint.
+   */
   Smoothstep = 'smoothstep',
+  /**
+   * Like Smoothstep, with a smoother ease.
+   */
   Smootherstep = 'smootherstep',
+  /**
+   * Snaps to the closest keypoint.
+   */
+  Nearest = 'nearest',
+  /**
+   * Holds the value of a keypoint until the next keypoint is reached.
+   */
+  Stepped = 'stepped',
+  /**
+   * Catmull-Rom style cubic interpolation across the axis points.
+   */
+  Cubic = 'cubic',
 }
 
 export class Binding {
   node: number = 0;
   is_set: boolean[][] = [];
   interpolate_mode: InterpolateMode = InterpolateMode.Linear;
+  /**
+   * The values as the rigger set them, unset keypoints hold whatever the file stored for them.
+   */
   values: BindingValues = new BindingValues();
+  /**
+   * The values with every unset keypoint filled in, these are the ones applied to the node.
+   */
+  interpolated: BindingValues = new BindingValues();
+  /**
+   * The payload of a binding this library does not support, kept to be written back unchanged.
+   */
+  unsupported?: any;
+
+  /**
+   * Fills in the keypoints that were not set by the rigger, the same way reference Inochi2D does.
+   * Unset keypoints are interpolated between the nearest set keypoints along the X axis,
+   * extended from the nearest one if there is only one side set, and then the same is
+   * done along the Y axis. A binding without any set keypoint does nothing.
+   * @param axis_points - The axis points of the parameter owning this binding.
+   */
+  reInterpolate(axis_points: AxisPoints): void {
+    const values = this.values;
+    const filled = this.interpolated;
+    filled.ZSort = fillUnset(values.ZSort, this.is_set, axis_points, lerpNumber);
+    filled.TransformTX = fillUnset(values.TransformTX, this.is_set, axis_points, lerpNumber);
+    filled.TransformTY = fillUnset(values.TransformTY, this.is_set, axis_points, lerpNumber);
+    filled.TransformSX = fillUnset(values.TransformSX, this.is_set, axis_points, lerpNumber);
+    filled.TransformSY = fillUnset(values.TransformSY, this.is_set, axis_points, lerpNumber);
+    filled.TransformRX = fillUnset(values.TransformRX, this.is_set, axis_points, lerpNumber);
+    filled.TransformRY = fillUnset(values.TransformRY, this.is_set, axis_points, lerpNumber);
+    filled.TransformRZ = fillUnset(values.TransformRZ, this.is_set, axis_points, lerpNumber);
+    filled.Deform = fillUnset(values.Deform, this.is_set, axis_points, lerpVectors);
+  }
 }
 
+/**
+ * The values of a binding at every keypoint, indexed as `[x][y]`.
+ * Only the channels a binding drives are populated, the others stay empty.
+ */
 export class BindingValues {
   ZSort: number[][] = [];
   TransformTX: number[][] = [];
@@ -33,7 +94,7 @@ export class BindingValues {
   TransformRX: number[][] = [];
   TransformRY: number[][] = [];
   TransformRZ: number[][] = [];
-  Deform: Vector2[][] = [];
+  Deform: Vector2[][][] = [];
 }
 
 export class AxisPoints {
@@ -41,10 +102,37 @@ export class AxisPoints {
   y: number[] = [];
 }
 
+/**
+ * The offsets a node accumulates from parameters every frame.
+ */
 export class PartOffsets {
   vert_offset: number = 0;
   vert_len: number = 0;
-  trans_offset: Matrix4 = new Matrix4();
+  trans_offset: Transform = new Transform();
+  zsort_offset: number = 0;
+
+  /**
+   * Resets the transform and zsort offsets to their neutral values.
+   */
+  reset(): void {
+    this.trans_offset.trans.set(0, 0, 0);
+    this.trans_offset.rot.set(0, 0, 0);
+    this.trans_offset.scale.set(1, 1);
+    this.zsort_offset = 0;
+  }
+}
+
+/**
+ * The cell of the axis point grid a parameter value falls in,
+ * along with the position of the value inside of that cell.
+ */
+interface InterpCell {
+  axis_points: AxisPoints;
+  x_mindex: number;
+  x_maxdex: number;
+  y_mindex: number;
+  y_maxdex: number;
+  t: Vector2;
 }
 
 /**
@@ -83,6 +171,23 @@ export class Param {
    * The bindings associated with the parameter.
    */
   bindings: Binding[] = []
+  /**
+   * The current value of the parameter.
+   */
+  value: Vector2 = new Vector2();
+
+  private interpolated: boolean = false;
+
+  /**
+   * Fills in the unset keypoints of every binding.
+   * Needs to be called again whenever the bindings or axis points are changed.
+   */
+  reInterpolate(): void {
+    for (const binding of this.bindings) {
+      binding.reInterpolate(this.axis_points);
+    }
+    this.interpolated = true;
+  }
 
   /**
    * Applies the parameter's value to the associated nodes and meshes.
@@ -95,11 +200,46 @@ export class Param {
     node_offsets: Map<number, PartOffsets>,
     deform_buf: Vector2[]
   ): void {
-    throw new Error("Not implemented.");
+    if (!this.interpolated) this.reInterpolate();
+
+    // Normalise the value into axis point space
+    const valNormed = new Vector2(
+      normalize(val.x, this.min.x, this.max.x),
+      this.is_vec2 ? normalize(val.y, this.min.y, this.max.y) : 0
+    );
+
+    // Find the cell we are in
+    const [x_mindex, x_maxdex] = this.getAxisPointIndexes(valNormed.x, this.axis_points.x);
+    const [y_mindex, y_maxdex] = this.is_vec2 ? this.getAxisPointIndexes(valNormed.y, this.axis_points.y) : [0, 0];
+    const cell: InterpCell = {
+      axis_points: this.axis_points,
+      x_mindex, x_maxdex, y_mindex, y_maxdex,
+      t: new Vector2(
+        cellPosition(valNormed.x, this.axis_points.x, x_mindex, x_maxdex),
+        cellPosition(valNormed.y, this.axis_points.y, y_mindex, y_maxdex)
+      ),
+    };
+
+    for (const binding of this.bindings) {
+      const offsets = node_offsets.get(binding.node);
+      if (offsets === undefined) continue;
+
+      const values = binding.interpolated;
+      if (values.ZSort.length > 0) offsets.zsort_offset += interpolate(binding.interpolate_mode, cell, (x, y) => values.ZSort[x][y]);
+      this.applyTransformOffset(binding, values.TransformTX, offsets.trans_offset, 'translation', 'x', cell);
+      this.applyTransformOffset(binding, values.TransformTY, offsets.trans_offset, 'translation', 'y', cell);
+      this.applyTransformOffset(binding, values.TransformSX, offsets.trans_offset, 'scale', 'x', cell);
+      this.applyTransformOffset(binding, values.TransformSY, offsets.trans_offset, 'scale', 'y', cell);
+      this.applyTransformOffset(binding, values.TransformRX, offsets.trans_offset, 'rotation', 'x', cell);
+      this.applyTransformOffset(binding, values.TransformRY, offsets.trans_offset, 'rotation', 'y', cell);
+      this.applyTransformOffset(binding, values.TransformRZ, offsets.trans_offset, 'rotation', 'z', cell);
+      this.applyDeformOffset(binding, offsets, deform_buf, cell);
+    }
   }
   
 
   private getAxisPointIndexes(value: number, axisPoints: number[]): [number, number] {
+    if (axisPoints.length < 2) return [0, 0];
     const index = axisPoints.findIndex((point) => point >= value);
     if (index === -1) return [axisPoints.length - 2, axisPoints.length - 1];
     if (index === 0) return [index, index + 1];
@@ -108,23 +248,318 @@ export class Param {
 
   private applyTransformOffset(
     binding: Binding,
-    transform: Matrix4,
+    values: number[][],
+    transform: Transform,
     property: 'translation' | 'scale' | 'rotation',
     axis: 'x' | 'y' | 'z',
-    rangeIn: Vector2,
-    valNormed: Vector2
+    cell: InterpCell
   ): void {
-    throw new Error("Not implemented.");
-    
+    if (values.length === 0) return;
+    const value = interpolate(binding.interpolate_mode, cell, (x, y) => values[x][y]);
+
+    switch (property) {
+      case 'translation':
+        transform.trans[axis] += value;
+        break;
+      case 'rotation':
+        transform.rot[axis] += value;
+        break;
+      case 'scale':
+        // Scale offsets are multiplicative, there's no Z scale in 2D
+        if (axis !== 'z') transform.scale[axis] *= value;
+        break;
+    }
   }
   
   private applyDeformOffset(
     binding: Binding,
-    deform: Vector2[][],
-    rangeIn: Vector2,
-    valNormed: Vector2
+    offsets: PartOffsets,
+    deform_buf: Vector2[],
+    cell: InterpCell
   ): void {
-    throw new Error("Not implemented.");
+    const deform = binding.interpolated.Deform;
+    if (deform.length === 0) return;
+    const mode = binding.interpolate_mode;
+
+    for (let i = 0; i < offsets.vert_len; i++) {
+      const target = deform_buf[offsets.vert_offset + i];
+      if (target === undefined) break;
+      target.x += interpolate(mode, cell, (x, y) => deform[x][y][i]?.x ?? 0);
+      target.y += interpolate(mode, cell, (x, y) => deform[x][y][i]?.y ?? 0);
+    }
   }
   
-}
\ No newline at end of file
+}
+
+/**
+ * Deserializes a parameter from the puppet payload.
+ * @param json - The JSON object of the parameter.
+ * @returns The deserialized parameter, set to its default value.
+ */
+export function deserializeParam(json: any): Param {
+  const param = new Param();
+  param.uuid = json.uuid;
+  param.name = json.name;
+  param.is_vec2 = json.is_vec2 !== undefined ? json.is_vec2 : param.is_vec2;
+  if (json.min !== undefined) param.min.fromArray(json.min);
+  if (json.max !== undefined) param.max.fromArray(json.max);
+  if (json.defaults !== undefined) param.defaults.fromArray(json.defaults);
+  if (json.axis_points !== undefined) {
+    param.axis_points.x = json.axis_points[0];
+    param.axis_points.y = json.axis_points[1] !== undefined ? json.axis_points[1] : [0];
+  }
+  param.bindings = json.bindings !== undefined ? json.bindings.map(deserializeBinding) : param.bindings;
+  param.value.copy(param.defaults);
+  return param;
+}
+
+/**
+ * Serializes a parameter into the puppet payload format.
+ * @param param - The parameter to serialize.
+ * @returns The JSON object of the parameter.
+ */
+export function serializeParam(param: Param): any {
+  return {
+    uuid: param.uuid,
+    name: param.name,
+    is_vec2: param.is_vec2,
+    min: param.min.toArray(),
+    max: param.max.toArray(),
+    defaults: param.defaults.toArray(),
+    axis_points: [param.axis_points.x, param.axis_points.y],
+    bindings: param.bindings.flatMap(serializeBinding),
+  };
+}
+
+/**
+ * Serializes a binding, every populated channel becomes its own binding in the payload.
+ */
+function serializeBinding(binding: Binding): any[] {
+  if (binding.unsupported !== undefined) return [binding.unsupported];
+  const values = binding.values;
+  const channels: [string, any[][]][] = [
+    ["zSort", values.ZSort],
+    ["transform.t.x", values.TransformTX],
+    ["transform.t.y", values.TransformTY],
+    ["transform.s.x", values.TransformSX],
+    ["transform.s.y", values.TransformSY],
+    ["transform.r.x", values.TransformRX],
+    ["transform.r.y", values.TransformRY],
+    ["transform.r.z", values.TransformRZ],
+    ["deform", values.Deform.map((column) => column.map((offsets) => offsets.map((offset) => offset.toArray())))],
+  ];
+  const mode = binding.interpolate_mode;
+
+  return channels.filter(([_, channel]) => channel.length > 0).map(([name, channel]) => ({
+    node: binding.node,
+    param_name: name,
+    values: channel,
+    isSet: binding.is_set,
+    interpolate_mode: mode.charAt(0).toUpperCase() + mode.slice(1),
+  }));
+}
+
+function deserializeBinding(json: any): Binding {
+  const binding = new Binding();
+  binding.node = json.node;
+  binding.is_set = json.isSet !== undefined ? json.isSet : binding.is_set;
+  binding.interpolate_mode = parseInterpolateMode(json.interpolate_mode);
+
+  const values = binding.values;
+  switch (json.param_name) {
+    case "zSort":
+      values.ZSort = json.values;
+      break;
+    case "transform.t.x":
+      values.TransformTX = json.values;
+      break;
+    case "transform.t.y":
+      values.TransformTY = json.values;
+      break;
+    case "transform.s.x":
+      values.TransformSX = json.values;
+      break;
+    case "transform.s.y":
+      values.TransformSY = json.values;
+      break;
+    case "transform.r.x":
+      values.TransformRX = json.values;
+      break;
+    case "transform.r.y":
+      values.TransformRY = json.values;
+      break;
+    case "transform.r.z":
+      values.TransformRZ = json.values;
+      break;
+    case "deform":
+    case "Deform":
+      values.Deform = json.values.map((column: any[]) => column.map((offsets: number[][]) =>
+        offsets.map((offset) => new Vector2(offset[0], offset[1]))
+      ));
+      break;
+    default:
+      console.warn(`Unsupported binding "${json.param_name}" on node ${json.node}, it is kept for export but not applied`);
+      binding.unsupported = json;
+  }
+
+  return binding;
+}
+
+function parseInterpolateMode(mode: any): InterpolateMode {
+  if (mode === undefined) return InterpolateMode.Linear;
+  const known = Object.values(InterpolateMode) as string[];
+  const name = typeof mode === 'string' ? mode.toLowerCase() : mode;
+  if (known.includes(name)) return name as InterpolateMode;
+
+  console.warn(`Unknown interpolation mode "${mode}", falling back to linear`);
+  return InterpolateMode.Linear;
+}
+
+function normalize(value: number, min: number, max: number): number {
+  if (max === min) return 0;
+  return (value - min) / (max - min);
+}
+
+function cellPosition(value: number, axisPoints: number[], mindex: number, maxdex: number): number {
+  if (mindex === maxdex) return 0;
+  const min = axisPoints[mindex];
+  const max = axisPoints[maxdex];
+  if (max === min) return 0;
+  return Math.min(Math.max((value - min) / (max - min), 0), 1);
+}
+
+function lerpNumber(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpVectors(a: Vector2[], b: Vector2[], t: number): Vector2[] {
+  return a.map((v, i) => b[i] !== undefined ? v.clone().lerp(b[i], t) : v.clone());
+}
+
+/**
+ * Remaps the position inside of a cell for the easing interpolation modes.
+ */
+function ease(t: number, mode: InterpolateMode): number {
+  switch (mode) {
+    case InterpolateMode.Smoothstep:
+      return t * t * (3 - 2 * t);
+    case InterpolateMode.Smootherstep:
+      return t * t * t * (t * (t * 6 - 15) + 10);
+    case InterpolateMode.Nearest:
+      return t < 0.5 ? 0 : 1;
+    case InterpolateMode.Stepped:
+      return t < 1 ? 0 : 1;
+    default:
+      return t;
+  }
+}
+
+/**
+ * Interpolates a keypoint grid at a cell.
+ * @param mode - The interpolation mode of the binding.
+ * @param cell - The cell to interpolate in.
+ * @param get - Gets the value at a keypoint.
+ */
+function interpolate(mode: InterpolateMode, cell: InterpCell, get: (x: number, y: number) => number): number {
+  const { axis_points, x_mindex, x_maxdex, y_mindex, y_maxdex, t } = cell;
+
+  if (mode === InterpolateMode.Cubic) {
+    const alongX = (y: number) => cubic(axis_points.x, x_mindex, x_maxdex, t.x, (x) => get(x, y));
+    return cubic(axis_points.y, y_mindex, y_maxdex, t.y, alongX);
+  }
+
+  const tx = ease(t.x, mode);
+  const ty = ease(t.y, mode);
+  return lerpNumber(
+    lerpNumber(get(x_mindex, y_mindex), get(x_maxdex, y_mindex), tx),
+    lerpNumber(get(x_mindex, y_maxdex), get(x_maxdex, y_maxdex), tx),
+    ty
+  );
+}
+
+/**
+ * Cubic Hermite interpolation along one axis, with Catmull-Rom tangents scaled to the axis point spacing.
+ * The neighbouring keypoints are clamped to the ends of the axis.
+ */
+function cubic(axis: number[], mindex: number, maxdex: number, t: number, get: (i: number) => number): number {
+  if (mindex === maxdex) return get(mindex);
+
+  const prev = Math.max(mindex - 1, 0);
+  const next = Math.min(maxdex + 1, axis.length - 1);
+  const p0 = get(prev);
+  const p1 = get(mindex);
+  const p2 = get(maxdex);
+  const p3 = get(next);
+
+  const span = axis[maxdex] - axis[mindex];
+  const m1 = tangent(p0, p2, axis[prev], axis[maxdex], span);
+  const m2 = tangent(p1, p3, axis[mindex], axis[next], span);
+
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * p1 +
+    (t3 - 2 * t2 + t) * m1 +
+    (-2 * t3 + 3 * t2) * p2 +
+    (t3 - t2) * m2;
+}
+
+function tangent(from: number, to: number, fromPoint: number, toPoint: number, span: number): number {
+  const distance = toPoint - fromPoint;
+  if (distance === 0) return 0;
+  return (to - from) / distance * span;
+}
+
+/**
+ * Fills the unset keypoints of a binding channel, first along the X axis then along the Y axis.
+ * @returns A filled copy of the values, or an empty array if no keypoint was set.
+ */
+function fillUnset<T>(set_values: T[][], is_set: boolean[][], axis_points: AxisPoints, lerp: (a: T, b: T, t: number) => T): T[][] {
+  if (set_values.length === 0) return [];
+  const values = set_values.map((column) => column.slice());
+  const xCount = values.length;
+  const yCount = values[0].length;
+  const valid = values.map((column, x) => column.map((_, y) => is_set[x]?.[y] ?? true));
+
+  // Nothing set, the binding does nothing
+  if (!valid.some((column) => column.some((set) => set))) return [];
+
+  // Fills a single line of keypoints, where get/set address the keypoint at a position along the line
+  const fillLine = (count: number, axis: number[], isValid: (i: number) => boolean, get: (i: number) => T, set: (i: number, value: T) => void) => {
+    const filled: [number, T][] = [];
+    for (let i = 0; i < count; i++) {
+      if (isValid(i)) continue;
+      let lo = i - 1;
+      let hi = i + 1;
+      while (lo >= 0 && !isValid(lo)) lo--;
+      while (hi < count && !isValid(hi)) hi++;
+
+      if (lo >= 0 && hi < count) {
+        const span = axis[hi] - axis[lo];
+        filled.push([i, lerp(get(lo), get(hi), span === 0 ? 0 : (axis[i] - axis[lo]) / span)]);
+      } else if (lo >= 0) {
+        filled.push([i, lerp(get(lo), get(lo), 0)]);
+      } else if (hi < count) {
+        filled.push([i, lerp(get(hi), get(hi), 0)]);
+      }
+    }
+    filled.forEach(([i, value]) => set(i, value));
+  };
+
+  // Along the X axis
+  for (let y = 0; y < yCount; y++) {
+    fillLine(xCount, axis_points.x, (x) => valid[x][y], (x) => values[x][y], (x, value) => {
+      values[x][y] = value;
+      valid[x][y] = true;
+    });
+  }
+
+  // Along the Y axis
+  for (let x = 0; x < xCount; x++) {
+    fillLine(yCount, axis_points.y, (y) => valid[x][y], (y) => values[x][y], (y, value) => {
+      values[x][y] = value;
+      valid[x][y] = true;
+    });
+  }
+
+  return values;
+}
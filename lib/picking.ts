@@ -0,0 +1,227 @@
+/*
+    Hit testing of parts
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+import { Node, MaskingMode } from "./nodes/node";
+import { Drawable, MaskData, Part, TextureUsage } from "./nodes/drawable";
+import { Composite } from "./nodes/composite";
+import { decodeBC7 } from "./bc7";
+import type { Puppet } from "./puppet";
+
+/**
+ * A part found under a point.
+ */
+export interface PickHit {
+    part: Part;
+
+    /**
+     * The point in the space of the part.
+     */
+    point: THREE.Vector2;
+
+    /**
+     * The texture coordinates under the point.
+     */
+    uv: THREE.Vector2;
+
+    /**
+     * How opaque the part is under the point, from 0 to 1, with its opacity applied.
+     */
+    alpha: number;
+}
+
+export interface PickOptions {
+    /**
+     * Alpha a part must have under the point to be hit, 0 by default so anything drawn counts.
+     */
+    alphaThreshold?: number;
+}
+
+/**
+ * Pixels of a texture, readable without a GPU.
+ */
+interface TexturePixels {
+    width: number;
+    height: number;
+    channels: number;
+    data: ArrayLike<number>;
+    max: number;
+}
+
+// Compressed textures get decoded the first time they are sampled
+const decodedTextures: WeakMap<THREE.Texture, TexturePixels> = new WeakMap();
+
+/**
+ * Finds the parts under a point, the way they are drawn.
+ * Parts are hit where their deformed mesh covers the point and their texture isn't transparent,
+ * and only where their masks let them be drawn. Disabled parts, and parts under disabled nodes, are never hit.
+ * @param puppet - The puppet to pick from.
+ * @param worldPoint - The point in the space of the puppet, the space of the three.js object it was added to.
+ * @param options - How to pick.
+ * @returns The parts hit, topmost first.
+ */
+export function pickParts(puppet: Puppet, worldPoint: THREE.Vector2, options: PickOptions = {}): PickHit[] {
+    const threshold = options.alphaThreshold ?? 0;
+    const hits: PickHit[] = [];
+
+    // Later nodes are drawn over earlier ones with the same z-index
+    for (const node of puppet.nodes.slice().reverse()) {
+        if (!(node instanceof Part) || !isDrawn(node)) continue;
+
+        const point = node.worldToLocal(worldPoint);
+        const coverage = coverageAt(node, point, puppet);
+        if (coverage === null) continue;
+
+        const alpha = coverage.alpha * node.opacity * compositeOpacity(node);
+        if (alpha <= threshold || !passesMasks(node, worldPoint, puppet)) continue;
+        hits.push({ part: node, point: point, uv: coverage.uv, alpha: alpha });
+    }
+
+    // The lowest z-index is drawn last, see Node.updateTransform
+    return hits.sort((a, b) => a.part.actualZsort - b.part.actualZsort);
+}
+
+/**
+ * Whether a node and every node above it are enabled.
+ */
+function isDrawn(node: Node): boolean {
+    for (let current: Node | null = node; current !== null; current = current.parent) {
+        if (!current.enabled) return false;
+    }
+    return true;
+}
+
+/**
+ * Multiplies the opacity of the composites a node is drawn into.
+ */
+function compositeOpacity(node: Node): number {
+    let opacity = 1;
+    for (let current = node.parent; current !== null; current = current.parent) {
+        if (current instanceof Composite) opacity *= current.opacity;
+    }
+    return opacity;
+}
+
+/**
+ * Finds how opaque a drawable is at a point.
+ * Drawables without a texture, like masks, are fully opaque wherever their mesh is.
+ * @returns The coverage, or null if the mesh doesn't cover the point.
+ */
+function coverageAt(drawable: Drawable, point: THREE.Vector2, puppet: Puppet): { uv: THREE.Vector2, alpha: number } | null {
+    const vertices = drawable.deformedVertices();
+    const uvs = drawable.mesh.uvs;
+    const indices = drawable.mesh.indices;
+    const texture = drawable instanceof Part ? puppet.textures[drawable.textures[TextureUsage.Albedo]] : undefined;
+
+    // Overlapping triangles are all drawn, so the most opaque one counts
+    let best: { uv: THREE.Vector2, alpha: number } | null = null;
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+        const a = vertices[indices[i]], b = vertices[indices[i + 1]], c = vertices[indices[i + 2]];
+        if (a === undefined || b === undefined || c === undefined) continue;
+
+        const weights = barycentric(point, a, b, c);
+        if (weights === null) continue;
+
+        const uv = new THREE.Vector2();
+        if (uvs !== undefined && uvs.length === vertices.length) {
+            uv.addScaledVector(uvs[indices[i]], weights.x)
+                .addScaledVector(uvs[indices[i + 1]], weights.y)
+                .addScaledVector(uvs[indices[i + 2]], weights.z);
+        }
+
+        const alpha = texture !== undefined ? textureAlpha(texture, uv) : 1;
+        if (best === null || alpha > best.alpha) best = { uv: uv, alpha: alpha };
+    }
+    return best;
+}
+
+/**
+ * Gets the barycentric coordinates of a point in a triangle.
+ * @returns The weights of the corners, or null if the point is outside the triangle.
+ */
+function barycentric(p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2): THREE.Vector3 | null {
+    const det = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+    if (Math.abs(det) < 1e-12) return null;
+
+    const u = ((b.y - c.y) * (p.x - c.x) + (c.x - b.x) * (p.y - c.y)) / det;
+    const v = ((c.y - a.y) * (p.x - c.x) + (a.x - c.x) * (p.y - c.y)) / det;
+    const w = 1 - u - v;
+    const epsilon = -1e-9;
+    if (u < epsilon || v < epsilon || w < epsilon) return null;
+    return new THREE.Vector3(u, v, w);
+}
+
+/**
+ * Samples the alpha of a texture at the nearest texel, clamping to the edges like the renderer does.
+ */
+function textureAlpha(texture: THREE.Texture, uv: THREE.Vector2): number {
+    const pixels = texturePixels(texture);
+    if (pixels === null || pixels.width === 0 || pixels.height === 0) return 0;
+
+    // Only textures with 2 or 4 channels have alpha
+    if (pixels.channels !== 2 && pixels.channels !== 4) return 1;
+
+    const x = THREE.MathUtils.clamp(Math.floor(uv.x * pixels.width), 0, pixels.width - 1);
+    const y = THREE.MathUtils.clamp(Math.floor(uv.y * pixels.height), 0, pixels.height - 1);
+    return pixels.data[(y * pixels.width + x) * pixels.channels + pixels.channels - 1] / pixels.max;
+}
+
+/**
+ * Gets the decoded pixels of a texture.
+ * @returns The pixels, or null if the texture has no pixel data on the CPU.
+ */
+function texturePixels(texture: THREE.Texture): TexturePixels | null {
+    const cached = decodedTextures.get(texture);
+    if (cached !== undefined) return cached;
+
+    if (texture instanceof THREE.CompressedTexture && (texture.format as number) === THREE.RGBA_BPTC_Format) {
+        const mipmap = texture.mipmaps[0];
+        const blocks = new Uint8Array(mipmap.data.buffer, mipmap.data.byteOffset, mipmap.data.byteLength);
+        const pixels = { width: mipmap.width, height: mipmap.height, channels: 4, data: decodeBC7(blocks, mipmap.width, mipmap.height), max: 255 };
+        decodedTextures.set(texture, pixels);
+        return pixels;
+    }
+
+    // Lazily loaded textures swap their image when decoded, so these aren't cached
+    const image = texture.image;
+    if (image === undefined || image === null || image.data === undefined) return null;
+    return {
+        width: image.width,
+        height: image.height,
+        channels: image.data.length / (image.width * image.height),
+        data: image.data,
+        max: image.data instanceof Uint16Array ? 65535 : 255,
+    };
+}
+
+/**
+ * Whether the masks of a part, and of the composites it is drawn into, let it be drawn at a point.
+ * Mirrors MaskRenderer: with any mask, a mask source must cover the point; a dodge source must not.
+ */
+function passesMasks(part: Part, worldPoint: THREE.Vector2, puppet: Puppet): boolean {
+    const maskLists: MaskData[][] = [part.masks];
+    for (let current = part.parent; current !== null; current = current.parent) {
+        if (current instanceof Composite) maskLists.push(current.masks);
+    }
+
+    return maskLists.every((masks) => {
+        const sources = masks
+            .map((mask) => ({ mode: mask.mode, source: puppet.findNode(mask.source) }))
+            .filter((mask): mask is { mode: MaskingMode, source: Drawable } => mask.source instanceof Drawable);
+
+        const covers = (source: Drawable) => {
+            if (!source.enabled) return false;
+            const coverage = coverageAt(source, source.worldToLocal(worldPoint), puppet);
+            const threshold = source instanceof Part ? source.mask_threshold : 0;
+            return coverage !== null && coverage.alpha > threshold;
+        };
+
+        const masked = sources.filter((mask) => mask.mode === MaskingMode.Mask);
+        if (masked.length > 0 && !masked.some((mask) => covers(mask.source))) return false;
+        return !sources.some((mask) => mask.mode === MaskingMode.Dodge && covers(mask.source));
+    });
+}
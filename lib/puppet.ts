@@ -5,9 +5,18 @@
 	Authors: Luna Nielsen
 */
 
-import { Texture } from 'three';
-import { Node } from './nodes/node';
-import { deserializeNode as deserializeNode } from "./nodes/serialiser";
+import { BufferAttribute, BufferGeometry, CompressedTexture, Material, Texture, Vector2 } from 'three';
+import { Node, NodeUuid } from './nodes/node';
+import { PathDeform } from './nodes/pathdeform';
+import { Part } from './nodes/drawable';
+import { Composite } from './nodes/composite';
+import { deserializeNode as deserializeNode, serializeNode } from "./nodes/serialiser";
+import { SimplePhysics, PuppetPhysics } from './nodes/physics';
+import { Param, PartOffsets, deserializeParam, serializeParam } from './param';
+import { PuppetLighting } from './renderer/lighting';
+import { PickHit, PickOptions, pickParts } from './picking';
+
+export type { PickHit, PickOptions } from './picking';
 
 export const NO_THUMBNAIL = 4294967295;
 
@@ -53,21 +62,499 @@ export class PuppetMeta {
 	preservePixels: boolean = false;
 }
 
+/**
+ * Memory used by a puppet.
+ */
+export interface PuppetMemoryStats {
+	textures: number;
+
+	/**
+	 * Bytes of pixel data of the textures, or of the blocks for compressed textures.
+	 */
+	textureBytes: number;
+
+	/**
+	 * Vertices of every drawable mesh.
+	 */
+	vertices: number;
+
+	/**
+	 * Bytes of the attributes and indices of the geometries created for rendering.
+	 */
+	geometryBytes: number;
+	materials: number;
+	renderTargets: number;
+
+	/**
+	 * Bytes of the color buffers of the render targets, at 4 bytes per pixel.
+	 */
+	renderTargetBytes: number;
+}
+
 export class Puppet {
 	meta: PuppetMeta = new PuppetMeta();
 	textures: Texture[] = [];
 	rootNode: Node = new Node();
+	params: Param[] = [];
+	physics: PuppetPhysics = new PuppetPhysics();
+	automation: any[] = [];                                 // Not evaluated, kept so it survives re-export
+	extData: Map<string, Uint8Array> = new Map();           // Vendor extension payloads
 
 	// Non-serialisable
-	nodes: Node[] = [];
+	nodes: Node[] = [];                                     // Every node, depth-first from the root
+	nodeIndex: Map<NodeUuid, Node> = new Map();             // Nodes by UUID
+	lighting: PuppetLighting = new PuppetLighting();
+	nodeOffsets: Map<NodeUuid, PartOffsets> = new Map();
+	deformBuffer: Vector2[] = [];
+	extensions: Map<string, any> = new Map();               // Decoded vendor extension payloads, see registerExtension
+	lazyTextures: Map<number, () => Promise<void>> = new Map();  // Decoders of textures not decoded yet, see ImportOptions.lazyTextures
+
+	/**
+	 * Decodes a texture that was loaded lazily, does nothing if it's already decoded.
+	 * @param index - The index of the texture.
+	 * @returns Resolves once the texture is decoded.
+	 */
+	loadTexture(index: number): Promise<void> {
+		const load = this.lazyTextures.get(index);
+		return load !== undefined ? load() : Promise.resolve();
+	}
+
+	/**
+	 * Decodes every texture that was loaded lazily.
+	 * @returns Resolves once all textures are decoded.
+	 */
+	async loadTextures(): Promise<void> {
+		await Promise.all(Array.from(this.lazyTextures.keys()).map((index) => this.loadTexture(index)));
+	}
+
+	/**
+	 * Gets the decoded payload of a vendor extension.
+	 * @param name - The name of the extension.
+	 * @returns The decoded payload, or undefined if the extension is missing or has no registered handler.
+	 */
+	getExtension<T = any>(name: string): T | undefined {
+		return this.extensions.get(name);
+	}
+
+	constructor() {
+		this.reindex();
+	}
+
+	/**
+	 * Rebuilds the node list and UUID index from the node tree.
+	 * Only needed after replacing rootNode or editing children arrays directly, the node operations keep them up to date.
+	 */
+	reindex(): void {
+		this.nodes = [];
+		this.nodeIndex.clear();
+		for (const node of this.depthFirst()) {
+			node.puppet = this;
+			this.nodes.push(node);
+			if (this.nodeIndex.has(node.uuid)) {
+				console.warn(`Duplicate node UUID ${node.uuid}, "${node.name}" can't be found by UUID`);
+				continue;
+			}
+			this.nodeIndex.set(node.uuid, node);
+		}
+
+		// Mask sources may have come or gone
+		this.nodes.forEach((node) => {
+			if (node instanceof Part || node instanceof Composite) node.maskRenderer.reset();
+		});
+	}
+
+	/**
+	 * Finds a node by UUID.
+	 * @param uuid - The UUID of the node.
+	 * @returns The node, or undefined if the puppet has no such node.
+	 */
+	findNode(uuid: NodeUuid): Node | undefined {
+		return this.nodeIndex.get(uuid);
+	}
+
+	/**
+	 * Finds the first node with a name, depth-first.
+	 * @param name - The name of the node.
+	 * @returns The node, or undefined if the puppet has no such node.
+	 */
+	findByName(name: string): Node | undefined {
+		for (const node of this.depthFirst()) {
+			if (node.name === name) return node;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Finds a node by the names on the way to it from the root, eg. "Root/Body/Head".
+	 * When siblings share a name every one of them is searched.
+	 * @param path - The names separated by slashes, starting with the name of the root node.
+	 * @returns The first node on the path, or undefined if no node is on it.
+	 */
+	findByPath(path: string): Node | undefined {
+		const names = path.split("/").filter((name) => name.length > 0);
+		const search = (node: Node, depth: number): Node | undefined => {
+			if (node.name !== names[depth]) return undefined;
+			if (depth === names.length - 1) return node;
+			for (const child of node.children) {
+				const found = search(child, depth + 1);
+				if (found !== undefined) return found;
+			}
+			return undefined;
+		};
+		return names.length > 0 ? search(this.rootNode, 0) : undefined;
+	}
+
+	/**
+	 * Gets the path of a node, the inverse of findByPath.
+	 * @param node - The node.
+	 * @returns The names from the root to the node, separated by slashes.
+	 */
+	pathOf(node: Node): string {
+		const names: string[] = [];
+		for (let current: Node | null = node; current !== null; current = current.parent) names.unshift(current.name ?? "");
+		return names.join("/");
+	}
+
+	/**
+	 * Finds every node of a type, depth-first.
+	 * @param type - The node class, eg. Part.
+	 * @returns The nodes which are instances of the class.
+	 */
+	findAll<T extends Node>(type: new (...args: any[]) => T): T[] {
+		return this.nodes.filter((node): node is T => node instanceof type);
+	}
+
+	/**
+	 * Iterates over a node and its descendants, parents before their children.
+	 * @param start - The node to start at, the root by default.
+	 */
+	*depthFirst(start: Node = this.rootNode): IterableIterator<Node> {
+		const stack: Node[] = [start];
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			yield node;
+			for (let i = node.children.length - 1; i >= 0; i--) stack.push(node.children[i]);
+		}
+	}
+
+	/**
+	 * Iterates over a node and its descendants, level by level.
+	 * @param start - The node to start at, the root by default.
+	 */
+	*breadthFirst(start: Node = this.rootNode): IterableIterator<Node> {
+		const queue: Node[] = [start];
+		for (let i = 0; i < queue.length; i++) {
+			yield queue[i];
+			queue.push(...queue[i].children);
+		}
+	}
+
+	/**
+	 * Adds a node, along with its children, to the puppet.
+	 * @param node - The node to add, it must not be part of a puppet yet.
+	 * @param parent - The node to add it under, the root by default.
+	 * @param index - Where among the children of the parent to add it, last by default.
+	 */
+	addNode(node: Node, parent: Node = this.rootNode, index: number = parent.children.length): void {
+		if (node.parent !== null || node === this.rootNode) throw new Error(`Node "${node.name}" is already part of a puppet`);
+		if (this.nodeIndex.get(parent.uuid) !== parent) throw new Error(`Parent "${parent.name}" is not part of this puppet`);
+		for (const added of this.depthFirst(node)) {
+			if (this.nodeIndex.has(added.uuid)) throw new Error(`A node with UUID ${added.uuid} is already part of this puppet`);
+		}
+
+		parent.children.splice(index, 0, node);
+		node.parent = parent;
+		this.reindex();
+		this.rebuildOffsets();
+
+		// Create the three.js objects if the puppet has been rendered already
+		if (parent.threeObj.parent !== null) node.createTree(parent.childContainer());
+	}
+
+	/**
+	 * Removes a node, along with its children, from the puppet.
+	 * @param node - The node to remove, it can't be the root.
+	 * @returns Whether the node was part of the puppet.
+	 */
+	removeNode(node: Node): boolean {
+		if (node === this.rootNode) throw new Error("The root node can't be removed");
+		if (this.nodeIndex.get(node.uuid) !== node || node.parent === null) return false;
+
+		node.parent.children.splice(node.parent.children.indexOf(node), 1);
+		node.parent = null;
+		node.threeObj.removeFromParent();
+		for (const removed of this.depthFirst(node)) removed.puppet = null;
+		this.reindex();
+		this.rebuildOffsets();
+		return true;
+	}
+
+	/**
+	 * Moves a node, along with its children, under another node.
+	 * The local transform of the node is kept.
+	 * @param node - The node to move, it can't be the root.
+	 * @param parent - The new parent, which can't be the node itself or one of its descendants.
+	 * @param index - Where among the children of the parent to move it, last by default.
+	 */
+	reparent(node: Node, parent: Node, index: number = parent.children.length): void {
+		if (node === this.rootNode) throw new Error("The root node can't be moved");
+		if (this.nodeIndex.get(node.uuid) !== node || this.nodeIndex.get(parent.uuid) !== parent) throw new Error("Both nodes need to be part of this puppet");
+		for (const descendant of this.depthFirst(node)) {
+			if (descendant === parent) throw new Error(`Node "${node.name}" can't be moved under itself`);
+		}
+
+		const siblings = node.parent!.children;
+		const oldIndex = siblings.indexOf(node);
+		siblings.splice(oldIndex, 1);
+		if (siblings === parent.children && oldIndex < index) index--;
+		parent.children.splice(index, 0, node);
+		node.parent = parent;
+
+		// Move the three.js object along if the node has been created already
+		if (node.threeObj.parent !== null) parent.childContainer().add(node.threeObj);
+		this.reindex();
+	}
+
+	/**
+	 * Finds the parts under a point, topmost first, see pickParts.
+	 * Hit testing uses the meshes as deformed by the last update, and the pixels of the decoded textures.
+	 * @param worldPoint - The point in the space of the puppet, the space of the three.js object it was added to.
+	 * @param options - How to pick.
+	 * @returns The parts hit, topmost first.
+	 */
+	pick(worldPoint: Vector2, options: PickOptions = {}): PickHit[] {
+		return pickParts(this, worldPoint, options);
+	}
+
+	/**
+	 * Gets how much memory the puppet uses.
+	 * Geometries, materials and render targets only exist once the puppet has been rendered.
+	 */
+	getMemoryStats(): PuppetMemoryStats {
+		const stats: PuppetMemoryStats = { textures: 0, textureBytes: 0, vertices: 0, geometryBytes: 0, materials: 0, renderTargets: 0, renderTargetBytes: 0 };
+
+		for (const texture of new Set(this.textures)) {
+			stats.textures++;
+			if (texture instanceof CompressedTexture) {
+				texture.mipmaps.forEach((mipmap) => stats.textureBytes += mipmap.data.byteLength);
+			} else {
+				stats.textureBytes += texture.image?.data?.byteLength ?? 0;
+			}
+		}
+
+		const geometries: Set<BufferGeometry> = new Set();
+		const materials: Set<Material> = new Set();
+		for (const node of this.nodes) {
+			stats.vertices += node.deformVertexCount();
+			const resources = node.gpuResources();
+			resources.geometries.forEach((geometry) => geometries.add(geometry));
+			resources.materials.forEach((material) => materials.add(material));
+			resources.renderTargets.forEach((target) => {
+				stats.renderTargets++;
+				stats.renderTargetBytes += target.width * target.height * 4;
+			});
+		}
+		const arrayBytes = (array: ArrayLike<number>) => (array as Float32Array | Uint16Array | Uint32Array).byteLength;
+		geometries.forEach((geometry) => {
+			Object.values(geometry.attributes).forEach((attribute) => {
+				if (attribute instanceof BufferAttribute) stats.geometryBytes += arrayBytes(attribute.array);
+			});
+			if (geometry.index !== null) stats.geometryBytes += arrayBytes(geometry.index.array);
+		});
+		stats.materials = materials.size;
+		return stats;
+	}
+
+	/**
+	 * Frees every GPU resource of the puppet: its textures and what its nodes created for rendering.
+	 * The puppet is taken out of the three.js scene, and can't be rendered again afterwards.
+	 */
+	dispose(): void {
+		this.nodes.forEach((node) => node.dispose());
+		new Set(this.textures).forEach((texture) => texture.dispose());
+		this.textures = [];
+		this.lazyTextures.clear();
+	}
+
+	/**
+	 * Finds a parameter by name.
+	 * @param name - The name of the parameter.
+	 * @returns The parameter, or undefined if the puppet has no such parameter.
+	 */
+	findParam(name: string): Param | undefined {
+		return this.params.find((param) => param.name === name);
+	}
+
+	/**
+	 * Sets the value of a parameter, clamped to the parameter's range.
+	 * The value is applied on the next update.
+	 * @param name - The name of the parameter.
+	 * @param x - The X value.
+	 * @param y - The Y value, only used by 2D parameters.
+	 * @returns Whether the parameter was found.
+	 */
+	setParam(name: string, x: number, y: number = 0): boolean {
+		const param = this.findParam(name);
+		if (param === undefined) return false;
+		param.value.set(x, param.is_vec2 ? y : param.defaults.y).clamp(param.min, param.max);
+		return true;
+	}
+
+	/**
+	 * Gets the current value of a parameter.
+	 * @param name - The name of the parameter.
+	 * @returns A copy of the parameter value, or undefined if the puppet has no such parameter.
+	 */
+	getParam(name: string): Vector2 | undefined {
+		return this.findParam(name)?.value.clone();
+	}
+
+	/**
+	 * Allocates the node offsets and the deform buffer for the puppet's nodes.
+	 * Needs to be called again whenever nodes or their meshes are added or removed.
+	 */
+	rebuildOffsets(): void {
+		this.nodeOffsets.clear();
+		this.deformBuffer = [];
+		for (const node of this.nodes) {
+			node.offsets = new PartOffsets();
+			node.offsets.vert_offset = this.deformBuffer.length;
+			node.offsets.vert_len = node.deformVertexCount();
+			for (let i = 0; i < node.offsets.vert_len; i++) this.deformBuffer.push(new Vector2());
+			this.nodeOffsets.set(node.uuid, node.offsets);
+		}
+	}
+
+	/**
+	 * Applies the parameters, updates every node of the puppet and deforms the meshes.
+	 * @param deltaSeconds - Time since the last update, in seconds. Physics only advance when time passes.
+	 */
+	update(deltaSeconds: number = 0): void {
+		// Reset the offsets from the last update
+		this.nodeOffsets.forEach((offsets) => offsets.reset());
+		this.deformBuffer.forEach((offset) => offset.set(0, 0));
+
+		// Apply parameters
+		for (const param of this.params) {
+			param.apply(param.value, this.nodeOffsets, this.deformBuffer);
+		}
+
+		// Update the nodes, parents before their children
+		const updateNode = (node: Node) => {
+			node.update();
+			node.children.forEach(updateNode);
+		};
+		updateNode(this.rootNode);
+
+		// Run the deformers, they add on top of what the parameters wrote into the deform buffer
+		this.nodes.forEach((node) => {
+			if (node instanceof PathDeform) node.deform();
+		});
+
+		// Simulate physics, the parameters they drive take effect on the next update
+		this.nodes.forEach((node) => {
+			if (node instanceof SimplePhysics) node.updatePhysics(deltaSeconds);
+		});
+
+		this.lighting.update();
+
+		// Let the nodes consume the accumulated offsets, this uploads the deformed meshes
+		this.nodes.forEach((node) => node.endUpdate());
+	}
+}
+
+/**
+ * Reads a value of a string enum, falling back when the value isn't one of its members.
+ */
+function deserializeEnum<T extends string>(values: { [key: string]: T }, value: any, fallback: T): T {
+	return Object.values(values).includes(value) ? value : fallback;
+}
+
+/**
+ * Hydrates the usage rights of a puppet.
+ * Missing or unknown values fall back to the most restrictive ones.
+ * @param json - The JSON object of the usage rights.
+ * @returns The usage rights.
+ */
+export function deserializeUsageRights(json: any): PuppetUsageRights {
+	const rights = new PuppetUsageRights();
+	if (json === undefined || json === null) return rights;
+	rights.allowedUsers = deserializeEnum(PuppetAllowedUsers, json.allowedUsers, rights.allowedUsers);
+	rights.allowViolence = json.allowViolence === true;
+	rights.allowSexual = json.allowSexual === true;
+	rights.allowCommercial = json.allowCommercial === true;
+	rights.allowRedistribution = deserializeEnum(PuppetAllowedRedistribution, json.allowRedistribution, rights.allowRedistribution);
+	rights.allowModification = deserializeEnum(PuppetAllowedModification, json.allowModification, rights.allowModification);
+	rights.requireAttribution = json.requireAttribution === true;
+	return rights;
+}
+
+/**
+ * Hydrates the metadata of a puppet.
+ * @param json - The JSON object of the metadata.
+ * @returns The metadata.
+ */
+export function deserializeMeta(json: any): PuppetMeta {
+	const meta = new PuppetMeta();
+	meta.name = json.name ?? meta.name;
+	meta.version = json.version ?? meta.version;
+	meta.rigger = json.rigger ?? meta.rigger;
+	meta.artist = json.artist ?? meta.artist;
+	meta.rights = deserializeUsageRights(json.rights);
+	meta.copyright = json.copyright ?? meta.copyright;
+	meta.licenseURL = json.licenseURL ?? meta.licenseURL;
+	meta.contact = json.contact ?? meta.contact;
+	meta.reference = json.reference ?? meta.reference;
+	meta.thumbnailId = json.thumbnailId ?? meta.thumbnailId;
+	meta.preservePixels = json.preservePixels ?? meta.preservePixels;
+	return meta;
+}
+
+function serializeMeta(meta: PuppetMeta): any {
+	return { ...meta, rights: { ...meta.rights } };
 }
 
 export function deserializePuppet(json: any, textures: Texture[]): Puppet {
 	const puppet = new Puppet();
-	puppet.meta = json.meta;
+	puppet.meta = json.meta !== undefined ? deserializeMeta(json.meta) : puppet.meta;
 	puppet.textures = textures;
 	puppet.rootNode = deserializeNode(puppet, json.nodes);
 	puppet.rootNode.transform.scale.y *= -1; // Weird rotation moment!
-	puppet.rootNode.update();
+	puppet.reindex();
+	puppet.params = json.param !== undefined ? json.param.map(deserializeParam) : puppet.params;
+	puppet.automation = json.automation !== undefined ? json.automation : puppet.automation;
+	if (json.physics !== undefined) {
+		puppet.physics.pixelsPerMeter = json.physics.pixelsPerMeter !== undefined ? json.physics.pixelsPerMeter : puppet.physics.pixelsPerMeter;
+		puppet.physics.gravity = json.physics.gravity !== undefined ? json.physics.gravity : puppet.physics.gravity;
+	}
+	puppet.rebuildOffsets();
+	puppet.update();
 	return puppet;
 }
+
+/**
+ * Serializes a puppet into the payload JSON of an INP file.
+ * @param puppet - The puppet to serialize.
+ * @returns The JSON object of the puppet.
+ */
+export function serializePuppet(puppet: Puppet): any {
+	// Undo the flip done on load while serializing
+	puppet.rootNode.transform.scale.y *= -1;
+	let nodes: any;
+	try {
+		nodes = JSON.parse(JSON.stringify(serializeNode(puppet.rootNode)));
+	} finally {
+		puppet.rootNode.transform.scale.y *= -1;
+	}
+
+	return {
+		meta: serializeMeta(puppet.meta),
+		physics: {
+			pixelsPerMeter: puppet.physics.pixelsPerMeter,
+			gravity: puppet.physics.gravity,
+		},
+		nodes: nodes,
+		param: puppet.params.map(serializeParam),
+		automation: puppet.automation,
+	};
+}
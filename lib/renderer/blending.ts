@@ -0,0 +1,172 @@
+/*
+    Shader-based blending
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+import { BlendMode } from "../nodes/node";
+import { blend_modes, BlendModeData } from "./renderer";
+
+/**
+ * GLSL blending functions, include in fragment shaders and write `inBlend(color)` to gl_FragColor.
+ * `color` is a straight alpha color, the result is premultiplied for the fixed-function stage.
+ */
+export const blendingShaderChunk = `
+uniform sampler2D inBackdrop;
+uniform vec2 inViewportSize;
+
+float inDodge(float b, float s) {
+    if (b <= 0.0) return 0.0;
+    if (s >= 1.0) return 1.0;
+    return min(1.0, b / (1.0 - s));
+}
+
+float inBurn(float b, float s) {
+    if (b >= 1.0) return 1.0;
+    if (s <= 0.0) return 0.0;
+    return 1.0 - min(1.0, (1.0 - b) / s);
+}
+
+float inHardLight(float b, float s) {
+    return s <= 0.5 ? b * 2.0 * s : 1.0 - (1.0 - b) * (1.0 - (2.0 * s - 1.0));
+}
+
+float inSoftLight(float b, float s) {
+    if (s <= 0.5) return b - (1.0 - 2.0 * s) * b * (1.0 - b);
+    float d = b <= 0.25 ? ((16.0 * b - 12.0) * b + 4.0) * b : sqrt(b);
+    return b + (2.0 * s - 1.0) * (d - b);
+}
+
+vec3 inBlendOverlay(vec3 b, vec3 s) {
+    return vec3(inHardLight(s.r, b.r), inHardLight(s.g, b.g), inHardLight(s.b, b.b));
+}
+
+vec3 inBlendColorDodge(vec3 b, vec3 s) {
+    return vec3(inDodge(b.r, s.r), inDodge(b.g, s.g), inDodge(b.b, s.b));
+}
+
+vec3 inBlendColorBurn(vec3 b, vec3 s) {
+    return vec3(inBurn(b.r, s.r), inBurn(b.g, s.g), inBurn(b.b, s.b));
+}
+
+vec3 inBlendHardLight(vec3 b, vec3 s) {
+    return vec3(inHardLight(b.r, s.r), inHardLight(b.g, s.g), inHardLight(b.b, s.b));
+}
+
+vec3 inBlendSoftLight(vec3 b, vec3 s) {
+    return vec3(inSoftLight(b.r, s.r), inSoftLight(b.g, s.g), inSoftLight(b.b, s.b));
+}
+
+vec3 inBlendDifference(vec3 b, vec3 s) {
+    return abs(b - s);
+}
+
+vec4 inBlend(vec4 color) {
+#ifdef IN_BLEND_FUNC
+    vec4 backdrop = texture2D(inBackdrop, gl_FragCoord.xy / inViewportSize);
+    vec3 b = backdrop.a > 0.0 ? backdrop.rgb / backdrop.a : vec3(0.0);
+    color.rgb = mix(color.rgb, IN_BLEND_FUNC(b, color.rgb), backdrop.a);
+#endif
+    return vec4(color.rgb * color.a, color.a);
+}
+`;
+
+/**
+ * Gets how a blend mode is drawn, unknown modes are drawn as Normal.
+ * @param mode - The blend mode.
+ */
+export function getBlendModeData(mode: BlendMode): BlendModeData {
+    const data = blend_modes.find(modeData => modeData._blendmode === mode);
+    return data !== undefined ? data : blend_modes[0];
+}
+
+/**
+ * Creates the uniforms used by the blending shader chunk.
+ */
+export function blendingUniforms(): { [uniform: string]: THREE.IUniform } {
+    return {
+        inBackdrop: { value: null },
+        inViewportSize: { value: new THREE.Vector2(1, 1) },
+    };
+}
+
+/**
+ * Sets up a material to draw with a blend mode.
+ * The material's fragment shader needs to use the blending shader chunk and uniforms.
+ * @param material - The material.
+ * @param mode - The blend mode.
+ */
+export function applyBlendMode(material: THREE.ShaderMaterial, mode: BlendMode) {
+    const data = getBlendModeData(mode);
+    material.blending = THREE.CustomBlending;
+    material.blendEquation = data._equation;
+    material.blendSrc = data._src;
+    material.blendDst = data._dst;
+    material.premultipliedAlpha = true;
+    if (data._shader !== undefined) {
+        material.defines = { ...material.defines, IN_BLEND_FUNC: data._shader };
+    }
+    material.needsUpdate = true;
+}
+
+/**
+ * Checks whether a blend mode needs a copy of the framebuffer to be drawn.
+ * @param mode - The blend mode.
+ */
+export function blendModeNeedsFramebuffer(mode: BlendMode): boolean {
+    return getBlendModeData(mode)._shader !== undefined;
+}
+
+// Shared between every blended drawable drawn by a renderer, they are drawn one after another
+const backdrops: WeakMap<object, THREE.FramebufferTexture> = new WeakMap();
+
+// How many users each renderer's backdrop has, see retainBackdrop
+const backdropUsers: WeakMap<object, number> = new WeakMap();
+
+/**
+ * Copies the framebuffer being drawn to into the backdrop of a material.
+ * Call this right before the material is drawn, from onBeforeRender.
+ * @param renderer - The renderer.
+ * @param material - The material, set up with the blending uniforms.
+ */
+export function copyBackdrop(renderer: THREE.WebGLRenderer, material: THREE.ShaderMaterial) {
+    const current = renderer.getRenderTarget();
+    const size = current !== null ?
+        new THREE.Vector2(current.width, current.height) :
+        renderer.getDrawingBufferSize(new THREE.Vector2());
+
+    let backdrop = backdrops.get(renderer);
+    if (backdrop === undefined || backdrop.image.width !== size.x || backdrop.image.height !== size.y) {
+        backdrop?.dispose();
+        backdrop = new THREE.FramebufferTexture(size.x, size.y, THREE.RGBAFormat);
+        backdrops.set(renderer, backdrop);
+    }
+
+    renderer.copyFramebufferToTexture(new THREE.Vector2(0, 0), backdrop);
+    material.uniforms.inBackdrop.value = backdrop;
+    material.uniforms.inViewportSize.value.copy(size);
+}
+
+/**
+ * Registers a user of the framebuffer copy of a renderer, so it is kept until every user releases it.
+ * @param renderer - The renderer.
+ */
+export function retainBackdrop(renderer: object) {
+    backdropUsers.set(renderer, (backdropUsers.get(renderer) ?? 0) + 1);
+}
+
+/**
+ * Releases the framebuffer copy of a renderer, it is freed once its last user releases it.
+ * It gets created again when needed.
+ * @param renderer - The renderer.
+ */
+export function releaseBackdrop(renderer: object) {
+    const users = (backdropUsers.get(renderer) ?? 1) - 1;
+    backdropUsers.set(renderer, users);
+    if (users > 0) return;
+
+    backdrops.get(renderer)?.dispose();
+    backdrops.delete(renderer);
+}
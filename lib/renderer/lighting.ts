@@ -0,0 +1,64 @@
+/*
+    Puppet lighting
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+
+/**
+ * GLSL lighting uniforms, include in fragment shaders of lit drawables.
+ */
+export const lightingShaderChunk = `
+uniform vec3 inAmbientLight;
+uniform vec3 inLightColor;
+uniform vec3 inLightDirection;
+uniform float inEmissionBoost;
+`;
+
+/**
+ * Lighting shared by every part of a puppet.
+ * The defaults leave the parts looking exactly like their albedo texture.
+ */
+export class PuppetLighting {
+    /**
+     * Ambient light color, multiplied with the albedo.
+     */
+    ambient: THREE.Color = new THREE.Color(1, 1, 1);
+
+    /**
+     * Color of the directional light, black turns it off.
+     */
+    lightColor: THREE.Color = new THREE.Color(0, 0, 0);
+
+    /**
+     * Angle the directional light shines from in the puppet plane, in radians. 0 is from the right.
+     */
+    lightAngle: number = 0;
+
+    /**
+     * Multiplier applied on top of every part's emission strength.
+     */
+    emissionBoost: number = 1;
+
+    /**
+     * Uniforms shared by every part material, kept in sync by update().
+     */
+    readonly uniforms: { [uniform: string]: THREE.IUniform } = {
+        inAmbientLight: { value: this.ambient },
+        inLightColor: { value: this.lightColor },
+        inLightDirection: { value: new THREE.Vector3(1, 0, 1).normalize() },
+        inEmissionBoost: { value: this.emissionBoost },
+    };
+
+    /**
+     * Copies the settings into the shared uniforms.
+     */
+    update() {
+        this.uniforms.inAmbientLight.value = this.ambient;
+        this.uniforms.inLightColor.value = this.lightColor;
+        this.uniforms.inLightDirection.value.set(Math.cos(this.lightAngle), Math.sin(this.lightAngle), 1).normalize();
+        this.uniforms.inEmissionBoost.value = this.emissionBoost;
+    }
+}
@@ -0,0 +1,240 @@
+/*
+    Stencil masking
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import * as THREE from "three";
+import { GpuResources, MaskingMode, Node } from "../nodes/node";
+import { Drawable, MaskData, Part } from "../nodes/drawable";
+
+/**
+ * Highest value an 8-bit stencil buffer can hold.
+ */
+const MAX_STENCIL = 255;
+
+// Next stencil value per render target, the default framebuffer is keyed by the renderer
+const stencilAllocations: WeakMap<object, number> = new WeakMap();
+
+/**
+ * Allocates a stencil value for a masked node about to be drawn.
+ * Values are handed out in draw order, when they run out the stencil buffer is cleared and they start over.
+ * 0 is never handed out, it marks areas no mask covers.
+ * @param renderer - The renderer, drawing to the target the value is allocated in.
+ * @returns The allocated stencil value.
+ */
+export function allocateStencil(renderer: THREE.WebGLRenderer): number {
+    const target = renderer.getRenderTarget();
+    const key: object = target !== null ? target : renderer;
+
+    let next = (stencilAllocations.get(key) ?? 0) + 1;
+    if (next > MAX_STENCIL) {
+        renderer.clearStencil();
+        next = 1;
+    }
+    stencilAllocations.set(key, next);
+    return next;
+}
+
+const maskVertexShader = `
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+const maskFragmentShader = `
+uniform sampler2D albedo;
+uniform float threshold;
+varying vec2 vUv;
+
+void main() {
+#ifdef HAS_ALBEDO
+    if (texture2D(albedo, vUv).a <= threshold) discard;
+#endif
+    gl_FragColor = vec4(1.0);
+}
+`;
+
+const fillVertexShader = `
+void main() {
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const fillFragmentShader = `
+void main() {
+    gl_FragColor = vec4(1.0);
+}
+`;
+
+/**
+ * Creates a material that only writes to the stencil buffer.
+ */
+function createStencilMaterial(params: THREE.ShaderMaterialParameters, op: THREE.StencilOp): THREE.ShaderMaterial {
+    const material = new THREE.ShaderMaterial(params);
+    material.colorWrite = false;
+    material.depthWrite = false;
+    material.depthTest = false;
+    material.stencilWrite = true;
+    material.stencilFunc = THREE.AlwaysStencilFunc;
+    material.stencilFail = op;
+    material.stencilZFail = op;
+    material.stencilZPass = op;
+    return material;
+}
+
+/**
+ * A mask source drawn into the stencil buffer.
+ */
+interface MaskProxy {
+    source: Drawable;
+    mode: MaskingMode;
+    object: THREE.Mesh;
+    material: THREE.ShaderMaterial;
+}
+
+/**
+ * Draws the masks of a node into the stencil buffer right before the node is drawn,
+ * and sets the node's material up to only draw where the masks allow it.
+ */
+export class MaskRenderer {
+    private proxies: MaskProxy[] | null = null;
+    private proxiedMasks: MaskData[] = [];     // Copies of the masks the proxies were created for
+    private fill: THREE.Mesh | null = null;
+
+    /**
+     * @param node - The masked node.
+     */
+    constructor(private node: Node & { masks: MaskData[] }) {}
+
+    /**
+     * Whether the node has any masks.
+     */
+    hasMasks(): boolean {
+        return this.node.masks.length > 0;
+    }
+
+    /**
+     * Draws the masks and updates the material of the node, call from the node's onBeforeRender.
+     * @param renderer - The renderer.
+     * @param scene - The scene being rendered.
+     * @param camera - The camera being rendered with.
+     * @param material - The material the node is about to be drawn with.
+     */
+    begin(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, material: THREE.Material) {
+        if (!this.hasMasks()) return;
+        const proxies = this.getProxies();
+        const ref = allocateStencil(renderer);
+
+        // With only dodge masks, start out with everything allowed
+        if (!proxies.some((proxy) => proxy.mode === MaskingMode.Mask)) {
+            const fill = this.getFill();
+            (fill.material as THREE.Material).stencilRef = ref;
+            renderer.renderBufferDirect(camera, scene, fill.geometry, fill.material as THREE.Material, fill, null);
+        }
+
+        // Masks allow drawing, dodges forbid it; so masks go first
+        const ordered = proxies.filter((proxy) => proxy.mode === MaskingMode.Mask)
+            .concat(proxies.filter((proxy) => proxy.mode === MaskingMode.Dodge));
+        for (const proxy of ordered) {
+            if (!proxy.source.enabled || !(proxy.source.threeObj instanceof THREE.Mesh)) continue;
+
+            // Draw with the source's current geometry, wherever the source is
+            const object = proxy.object;
+            object.geometry = proxy.source.threeObj.geometry;
+            object.matrixWorld.copy(proxy.source.threeObj.matrixWorld);
+            object.modelViewMatrix.multiplyMatrices(camera.matrixWorldInverse, object.matrixWorld);
+            object.normalMatrix.getNormalMatrix(object.modelViewMatrix);
+
+            proxy.material.stencilRef = ref;
+            if (proxy.source instanceof Part) proxy.material.uniforms.threshold.value = proxy.source.mask_threshold;
+            renderer.renderBufferDirect(camera, scene, object.geometry, proxy.material, object, null);
+        }
+
+        // Only draw where the masks left our value
+        material.stencilWrite = true;
+        material.stencilRef = ref;
+        material.stencilFunc = THREE.EqualStencilFunc;
+        material.stencilFail = THREE.KeepStencilOp;
+        material.stencilZFail = THREE.KeepStencilOp;
+        material.stencilZPass = THREE.KeepStencilOp;
+    }
+
+    /**
+     * Drops the mask proxies, so they get created again on the next draw.
+     * Call when the nodes of the puppet change, the puppet's node operations do.
+     */
+    reset() {
+        this.proxies?.forEach((proxy) => proxy.material.dispose());
+        this.proxies = null;
+    }
+
+    /**
+     * Creates the mask proxies on first use, so every source has been created by then.
+     * They are created again when the masks of the node change.
+     */
+    private getProxies(): MaskProxy[] {
+        const masks = this.node.masks;
+        const changed = masks.length !== this.proxiedMasks.length ||
+            masks.some((mask, i) => mask.source !== this.proxiedMasks[i].source || mask.mode !== this.proxiedMasks[i].mode);
+        if (this.proxies !== null && !changed) return this.proxies;
+
+        this.reset();
+        this.proxiedMasks = masks.map((mask) => ({ ...mask }));
+        this.proxies = [];
+        for (const mask of this.node.masks) {
+            const source: Node | undefined = this.node.puppet?.findNode(mask.source);
+            if (!(source instanceof Drawable)) {
+                console.warn(`Mask source ${mask.source} of node ${this.node.uuid} is not a drawable`);
+                continue;
+            }
+
+            // Parts mask with the opaque parts of their texture
+            const albedo: THREE.Texture | undefined = source instanceof Part ? this.node.puppet.textures[source.textures[0]] : undefined;
+            const op = mask.mode === MaskingMode.Dodge ? THREE.ZeroStencilOp : THREE.ReplaceStencilOp;
+            const material = createStencilMaterial({
+                uniforms: {
+                    albedo: { value: albedo ?? null },
+                    threshold: { value: source instanceof Part ? source.mask_threshold : 0 },
+                },
+                defines: albedo !== undefined ? { HAS_ALBEDO: '' } : {},
+                vertexShader: maskVertexShader,
+                fragmentShader: maskFragmentShader,
+            }, op);
+
+            const object = new THREE.Mesh(new THREE.BufferGeometry(), material);
+            object.matrixAutoUpdate = false;
+            this.proxies.push({ source, mode: mask.mode, object, material });
+        }
+        return this.proxies;
+    }
+
+    /**
+     * Gets the GPU resources created for drawing the masks.
+     * The geometries of the mask sources belong to the sources.
+     */
+    gpuResources(): GpuResources {
+        const resources: GpuResources = { geometries: [], materials: [], renderTargets: [] };
+        this.proxies?.forEach((proxy) => resources.materials.push(proxy.material));
+        if (this.fill !== null) {
+            resources.geometries.push(this.fill.geometry);
+            resources.materials.push(this.fill.material as THREE.Material);
+        }
+        return resources;
+    }
+
+    private getFill(): THREE.Mesh {
+        if (this.fill === null) {
+            const material = createStencilMaterial({
+                vertexShader: fillVertexShader,
+                fragmentShader: fillFragmentShader,
+            }, THREE.ReplaceStencilOp);
+            this.fill = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+        }
+        return this.fill;
+    }
+}
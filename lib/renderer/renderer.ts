@@ -8,48 +8,186 @@
 */
 
 import * as THREE from "three";
-import { BlendMode, Node } from "../nodes/node";
-import { Drawable, Part } from "../nodes/drawable";
+import { BlendMode } from "../nodes/node";
 import { Puppet } from "../puppet";
+import { releaseBackdrop, retainBackdrop } from "./blending";
 
 
-export const blend_modes = [
-    { _blendmode: BlendMode.Normal, _constant: THREE.NormalBlending },
-    { _blendmode: BlendMode.Screen, _constant: THREE.MultiplyBlending  },
-    { _blendmode: BlendMode.ColorDodge, _constant: THREE.MultiplyBlending },
-    { _blendmode: BlendMode.Multiply, _constant: THREE.MultiplyBlending }
+/**
+ * How a blend mode is drawn.
+ * Colors are premultiplied when they reach the blending stage.
+ */
+export interface BlendModeData {
+    _blendmode: BlendMode;
+    _equation: THREE.BlendingEquation;
+    _src: THREE.BlendingSrcFactor | THREE.BlendingDstFactor;
+    _dst: THREE.BlendingDstFactor;
+    _shader?: string;   // GLSL blend function, for modes that need to read the framebuffer
+}
+
+export const blend_modes: BlendModeData[] = [
+    { _blendmode: BlendMode.Normal, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor },
+    { _blendmode: BlendMode.Multiply, _equation: THREE.AddEquation, _src: THREE.DstColorFactor, _dst: THREE.OneMinusSrcAlphaFactor },
+    { _blendmode: BlendMode.Screen, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcColorFactor },
+    { _blendmode: BlendMode.Darken, _equation: THREE.MinEquation, _src: THREE.OneFactor, _dst: THREE.OneFactor },
+    { _blendmode: BlendMode.Lighten, _equation: THREE.MaxEquation, _src: THREE.OneFactor, _dst: THREE.OneFactor },
+    { _blendmode: BlendMode.LinearDodge, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneFactor },
+    { _blendmode: BlendMode.Exclusion, _equation: THREE.AddEquation, _src: THREE.OneMinusDstColorFactor, _dst: THREE.OneMinusSrcColorFactor },
+    { _blendmode: BlendMode.Subtract, _equation: THREE.ReverseSubtractEquation, _src: THREE.OneMinusDstColorFactor, _dst: THREE.OneFactor },
+    { _blendmode: BlendMode.Inverse, _equation: THREE.AddEquation, _src: THREE.OneMinusDstColorFactor, _dst: THREE.OneMinusSrcAlphaFactor },
+    { _blendmode: BlendMode.DestinationIn, _equation: THREE.AddEquation, _src: THREE.ZeroFactor, _dst: THREE.SrcAlphaFactor },
+    { _blendmode: BlendMode.ClipToLower, _equation: THREE.AddEquation, _src: THREE.DstAlphaFactor, _dst: THREE.OneMinusSrcAlphaFactor },
+    { _blendmode: BlendMode.SliceFromLower, _equation: THREE.AddEquation, _src: THREE.OneMinusDstAlphaFactor, _dst: THREE.OneMinusSrcAlphaFactor },
+
+    // Fixed-function blending can't do these, they blend against a copy of the framebuffer
+    { _blendmode: BlendMode.Overlay, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendOverlay" },
+    { _blendmode: BlendMode.ColorDodge, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendColorDodge" },
+    { _blendmode: BlendMode.ColorBurn, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendColorBurn" },
+    { _blendmode: BlendMode.HardLight, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendHardLight" },
+    { _blendmode: BlendMode.SoftLight, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendSoftLight" },
+    { _blendmode: BlendMode.Difference, _equation: THREE.AddEquation, _src: THREE.OneFactor, _dst: THREE.OneMinusSrcAlphaFactor, _shader: "inBlendDifference" },
 ];
 
-// Function to recursively add nodes to the scene
-function createNode(node: Node | Drawable, scene: THREE.Object3D, parent: THREE.Object3D, textures: THREE.Texture[]) {
-    node.create();
-    node.update();
-    parent.add(node.threeObj);
+// Puppets with a live instance, the nodes of a puppet only hold one set of three.js objects
+const instancedPuppets: WeakSet<Puppet> = new WeakSet();
+
+/**
+ * A puppet added to a three.js scene.
+ * Create these through PuppetRenderer.add.
+ */
+export class PuppetInstance {
+    readonly puppet: Puppet;
+    readonly object: THREE.Object3D;    // The three.js object of the root node
+    private disposed: boolean = false;
 
-    // Process child nodes
-    for (let child of node.children) {
-        createNode(child, scene, node.threeObj, textures);
+    /**
+     * @param puppet - The puppet, it can only have one instance at a time.
+     * @param parent - The object to add the puppet under.
+     */
+    constructor(puppet: Puppet, parent: THREE.Object3D) {
+        if (instancedPuppets.has(puppet)) throw new Error("The puppet already has an instance, load it again to show it twice");
+        instancedPuppets.add(puppet);
+        this.puppet = puppet;
+        this.object = puppet.rootNode.createTree(parent);
+    }
+
+    /**
+     * Applies the parameters, simulates physics and deforms the meshes.
+     * @param deltaSeconds - Time since the last update, in seconds.
+     */
+    update(deltaSeconds: number) {
+        if (this.disposed) return;
+        this.puppet.update(deltaSeconds);
+    }
+
+    /**
+     * Shows or hides the puppet.
+     */
+    setVisible(visible: boolean) {
+        this.object.visible = visible;
+    }
+
+    get visible(): boolean {
+        return this.object.visible;
+    }
+
+    /**
+     * Removes the puppet from the scene and frees its GPU resources, see Puppet.dispose.
+     * The instance can't be used afterwards.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+        instancedPuppets.delete(this.puppet);
+        this.object.removeFromParent();
+        this.puppet.dispose();
     }
-        
-    return node.threeObj;
 }
 
-// Function to render a Puppet
-export function renderPuppet(puppet: Puppet, scene: THREE.Scene, camera: THREE.Camera, renderer: THREE.Renderer) {
-    // Process root node
-    let rootNode = createNode(puppet.rootNode, scene, scene, puppet.textures);
-    scene.add(rootNode);
+/**
+ * Draws puppets into a three.js scene.
+ * Drive it from your own loop with update and render, or let it run its own loop with start.
+ */
+export class PuppetRenderer {
+    readonly instances: PuppetInstance[] = [];
+    private clock: THREE.Clock = new THREE.Clock();
+    private frame: number | null = null;
+    private disposed: boolean = false;
 
-    // Render loop
-    const animate = function () {
-        requestAnimationFrame(animate);
-        renderer.render(scene, camera);
-    };
+    constructor(public renderer: THREE.Renderer, public scene: THREE.Scene, public camera: THREE.Camera) {
+        retainBackdrop(renderer);
+    }
 
-    animate();
+    /**
+     * Adds a puppet to the scene.
+     * @param puppet - The puppet to add, which can't already be in a scene.
+     * @param parent - The object to add the puppet under, the scene by default.
+     * @returns The instance of the puppet.
+     */
+    add(puppet: Puppet, parent: THREE.Object3D = this.scene): PuppetInstance {
+        const instance = new PuppetInstance(puppet, parent);
+        this.instances.push(instance);
+        return instance;
+    }
+
+    /**
+     * Removes a puppet from the scene, and frees it by disposing its instance.
+     * @param instance - The instance of the puppet.
+     */
+    remove(instance: PuppetInstance) {
+        const index = this.instances.indexOf(instance);
+        if (index >= 0) this.instances.splice(index, 1);
+        instance.dispose();
+    }
+
+    /**
+     * Updates every puppet.
+     * @param deltaSeconds - Time since the last update, in seconds.
+     */
+    update(deltaSeconds: number) {
+        this.instances.forEach((instance) => instance.update(deltaSeconds));
+    }
+
+    /**
+     * Renders the scene.
+     */
+    render() {
+        this.renderer.render(this.scene, this.camera);
+    }
+
+    /**
+     * Starts updating and rendering every animation frame.
+     */
+    start() {
+        if (this.frame !== null) return;
+        this.clock.getDelta();
+        const animate = () => {
+            this.frame = requestAnimationFrame(animate);
+            this.update(this.clock.getDelta());
+            this.render();
+        };
+        animate();
+    }
 
-    return {
-        rootNode: rootNode, 
-        animate: animate
-    };
+    /**
+     * Stops the loop started by start.
+     */
+    stop() {
+        if (this.frame === null) return;
+        cancelAnimationFrame(this.frame);
+        this.frame = null;
+    }
+
+    /**
+     * Stops the loop, and removes and frees every puppet.
+     * The copy of the framebuffer blend modes read is freed once no other PuppetRenderer uses the renderer.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+        this.stop();
+        this.instances.forEach((instance) => instance.dispose());
+        this.instances.length = 0;
+        releaseBackdrop(this.renderer);
+    }
 }
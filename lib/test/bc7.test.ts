@@ -0,0 +1,58 @@
+/*
+    Tests of decoding BC7 blocks against pixels worked out from the format specification.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import { decodeBC7 } from "../bc7";
+
+function hex(bytes: string): Uint8Array {
+    return new Uint8Array(bytes.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+/**
+ * Decodes a single 4x4 block into its 16 RGBA pixels.
+ */
+function pixels(block: string): number[][] {
+    const data = decodeBC7(hex(block), 4, 4);
+    return Array.from({ length: 16 }, (_, i) => Array.from(data.subarray(i * 4, i * 4 + 4)));
+}
+
+describe("decodeBC7", () => {
+    it("decodes a solid mode 6 block", () => {
+        // Both endpoints (100, 50, 10, 127) with both P-bits set, every index 0
+        expect(pixels("403259265328feff0100000000000000")).toEqual(Array(16).fill([201, 101, 21, 255]));
+    });
+
+    it("decodes a mode 6 block across its 4-bit weights", () => {
+        // Endpoints (16, 0, 127, 127) and (112, 127, 0, 127) with P-bits 0 and 1, pixel i has index i
+        expect(pixels("40081cf0ff03fe7f1132547698badcfe")).toEqual([
+            [32, 0, 254, 254], [44, 16, 238, 254], [59, 36, 218, 254], [71, 52, 203, 254],
+            [83, 68, 187, 254], [95, 84, 171, 254], [110, 104, 151, 254], [122, 120, 135, 254],
+            [135, 135, 120, 255], [147, 151, 104, 255], [162, 171, 84, 255], [174, 187, 68, 255],
+            [186, 203, 52, 255], [198, 219, 37, 255], [213, 239, 17, 255], [225, 255, 1, 255],
+        ]);
+    });
+
+    it("decodes a two subset mode 1 block", () => {
+        // Partition 0 puts the two right columns in subset 1, anchored at pixel 15.
+        // Subset 0 goes black to white with shared P-bit 1, subset 1 red to blue with shared P-bit 0.
+        // Pixel i has index i % 8, except the anchor at pixel 15 which has index 3.
+        expect(pixels("02c0ff03c00f00c00ffc118df5118df5")).toEqual([
+            [2, 2, 2, 255], [38, 38, 38, 255], [182, 0, 71, 255], [146, 0, 107, 255],
+            [148, 148, 148, 255], [184, 184, 184, 255], [36, 0, 217, 255], [0, 0, 253, 255],
+            [2, 2, 2, 255], [38, 38, 38, 255], [182, 0, 71, 255], [146, 0, 107, 255],
+            [148, 148, 148, 255], [184, 184, 184, 255], [36, 0, 217, 255], [146, 0, 107, 255],
+        ]);
+    });
+
+    it("lays blocks out in rows and crops partial blocks", () => {
+        // The solid block next to the mode 6 gradient, cropped to 6x2
+        const data = decodeBC7(hex("403259265328feff0100000000000000" + "40081cf0ff03fe7f1132547698badcfe"), 6, 2);
+        const rows = Array.from({ length: 2 }, (_, y) => Array.from({ length: 6 }, (_, x) => data[(y * 6 + x) * 4]));
+        expect(data.length).toBe(6 * 2 * 4);
+        expect(rows).toEqual([[201, 201, 201, 201, 32, 44], [201, 201, 201, 201, 83, 95]]);
+    });
+});
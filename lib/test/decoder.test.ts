@@ -0,0 +1,137 @@
+/*
+    Tests of lazy texture decoding and the worker pool, through fake decoders and workers.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { DecodedImage, InpTextureError, TextureDecoder, TextureType, WorkerDecoderPool, inExport, inImport } from "../inp";
+import { Puppet } from "../puppet";
+import { Part } from "../nodes/drawable";
+
+/**
+ * A decoder answering every payload with a 2x2 image filled with the payload's length,
+ * failing the first few decodes.
+ */
+class FakeDecoder implements TextureDecoder {
+    calls: Uint8Array[] = [];
+
+    constructor(private failures = 0) {}
+
+    async decode(type: TextureType, data: Uint8Array): Promise<DecodedImage> {
+        this.calls.push(data);
+        if (this.failures-- > 0) throw new Error("Broken payload");
+        return { width: 2, height: 2, data: new Uint8Array(16).fill(data.length % 256) };
+    }
+}
+
+/**
+ * Exports a puppet with two textures, where two parts use the first one and none uses the second.
+ */
+function puppetFile(): Uint8Array {
+    const puppet = new Puppet();
+    puppet.textures = [4, 8].map((size) => new THREE.DataTexture(new Uint8Array(size * size * 4).fill(255), size, size));
+    [2, 3].forEach((uuid) => {
+        const part = new Part();
+        part.uuid = uuid;
+        part.textures = [0];
+        part.mesh.vertices = [new THREE.Vector2(0, 0), new THREE.Vector2(1, 0), new THREE.Vector2(0, 1)];
+        part.mesh.uvs = [new THREE.Vector2(0, 0), new THREE.Vector2(1, 0), new THREE.Vector2(0, 1)];
+        part.mesh.indices = [0, 1, 2];
+        puppet.addNode(part);
+    });
+    return inExport(puppet);
+}
+
+describe("lazy textures", () => {
+    it("decode once the first part using them is created", async () => {
+        const decoder = new FakeDecoder();
+        const puppet = await inImport(puppetFile(), { decoder: decoder, lazyTextures: true });
+        const placeholder = puppet.textures[0];
+        expect(decoder.calls).toEqual([]);
+        expect([placeholder.image.width, placeholder.image.height]).toEqual([1, 1]);
+
+        // Creating the parts starts the decode, loading the texture again waits for the same one
+        puppet.rootNode.createTree(new THREE.Group());
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(decoder.calls.length).toBe(1);
+        await puppet.loadTexture(0);
+
+        // Only the used texture was decoded, once, into the stand-in the materials already hold
+        expect(decoder.calls.length).toBe(1);
+        expect(puppet.lazyTextures.has(0)).toBe(false);
+        expect(puppet.lazyTextures.has(1)).toBe(true);
+        expect(puppet.textures[0]).toBe(placeholder);
+        expect([placeholder.image.width, placeholder.image.height]).toEqual([2, 2]);
+        expect(placeholder.image.data[0]).toBe(decoder.calls[0].length % 256);
+    });
+
+    it("report failed decodes and try them again", async () => {
+        const decoder = new FakeDecoder(1);
+        const errors: InpTextureError[] = [];
+        const puppet = await inImport(puppetFile(), { decoder: decoder, lazyTextures: true, onTextureError: (error) => errors.push(error) });
+
+        puppet.rootNode.createTree(new THREE.Group());
+        await expect(puppet.loadTexture(0)).rejects.toBeInstanceOf(InpTextureError);
+        expect(errors.length).toBe(1);
+        expect(errors[0].index).toBe(0);
+        expect(puppet.textures[0].image.width).toBe(1);
+
+        await puppet.loadTexture(0);
+        expect(decoder.calls.length).toBe(2);
+        expect(decoder.calls[1]).toEqual(decoder.calls[0]);
+        expect(errors.length).toBe(1);
+        expect(puppet.textures[0].image.width).toBe(2);
+    });
+});
+
+/**
+ * A worker decoding every payload into a 1x1 image, after a turn of the event loop.
+ */
+class FakeWorker {
+    onmessage: ((event: any) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    messages: { message: any, transfer: Transferable[] }[] = [];
+    terminated = false;
+
+    postMessage(message: any, transfer: Transferable[]) {
+        this.messages.push({ message, transfer });
+        setTimeout(() => this.onmessage?.({ data: { width: 1, height: 1, data: new Uint8Array(message.data.slice(0, 4)) } }), 0);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+}
+
+describe("WorkerDecoderPool", () => {
+    it("posts payloads to its workers and transfers their buffers", async () => {
+        const workers: FakeWorker[] = [];
+        const pool = new WorkerDecoderPool({ size: 1, createWorker: () => {
+            const worker = new FakeWorker();
+            workers.push(worker);
+            return worker as unknown as Worker;
+        } });
+
+        // A payload owning its buffer is transferred as is, a view into a larger buffer is copied first
+        const whole = new Uint8Array([1, 2, 3, 4]);
+        const view = new Uint8Array([0, 5, 6, 7, 8, 0]).subarray(1, 5);
+        const images = await Promise.all([pool.decode(TextureType.PNG, whole), pool.decode(TextureType.TGA, view)]);
+
+        expect(workers.length).toBe(1);
+        const [first, second] = workers[0].messages;
+        expect(first.message).toEqual({ type: TextureType.PNG, data: whole });
+        expect(first.transfer).toEqual([whole.buffer]);
+        expect(second.message.type).toBe(TextureType.TGA);
+        expect(Array.from(second.message.data)).toEqual([5, 6, 7, 8]);
+        expect(second.transfer).toEqual([second.message.data.buffer]);
+        expect(second.message.data.buffer).not.toBe(view.buffer);
+        expect(images.map((image) => Array.from(image.data))).toEqual([[1, 2, 3, 4], [5, 6, 7, 8]]);
+
+        pool.terminate();
+        expect(workers[0].terminated).toBe(true);
+        await expect(pool.decode(TextureType.PNG, whole)).rejects.toThrow("terminated");
+    });
+});
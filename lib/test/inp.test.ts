@@ -0,0 +1,94 @@
+/*
+    Tests of reporting progress and aborting while loading puppets.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+import { DecodedImage, LoadProgress, TextureDecoder, TextureType, inExport, inImport, inImportFromURL } from "../inp";
+import { Puppet } from "../puppet";
+
+/**
+ * Exports an empty puppet with a few textures.
+ */
+function puppetFile(textures: number): Uint8Array {
+    const puppet = new Puppet();
+    puppet.textures = Array.from({ length: textures }, () => new THREE.DataTexture(new Uint8Array(4 * 4 * 4), 4, 4));
+    return inExport(puppet);
+}
+
+/**
+ * Stubs fetch to answer with a file, streamed in chunks.
+ */
+function stubFetch(file: Uint8Array, chunkSize: number) {
+    globalThis.fetch = async () => {
+        let offset = 0;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                if (offset >= file.length) return controller.close();
+                controller.enqueue(file.slice(offset, offset += chunkSize));
+            },
+        });
+        return new Response(body, { headers: { "Content-Length": String(file.length) } });
+    };
+}
+
+class FakeDecoder implements TextureDecoder {
+    decoded = 0;
+
+    constructor(private onDecode: (count: number) => void = () => {}) {}
+
+    async decode(type: TextureType, data: Uint8Array): Promise<DecodedImage> {
+        this.onDecode(++this.decoded);
+        return { width: 1, height: 1, data: new Uint8Array(4) };
+    }
+}
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = realFetch;
+    vi.restoreAllMocks();
+});
+
+describe("inImportFromURL", () => {
+    it("reports progress that only goes up, and completes every stage", async () => {
+        const file = puppetFile(3);
+        stubFetch(file, 100);
+        const progress: LoadProgress[] = [];
+        await inImportFromURL("https://example.com/puppet.inp", { decoder: new FakeDecoder(), onProgress: (update) => progress.push({ ...update }) });
+
+        expect(progress.map((update) => update.stage).filter((stage, i, stages) => stage !== stages[i - 1])).toEqual(["download", "parse", "textures"]);
+        for (const stage of ["download", "parse", "textures"]) {
+            const updates = progress.filter((update) => update.stage === stage);
+            const fractions = updates.map((update) => update.loaded / update.total);
+            expect(fractions, stage).toEqual([...fractions].sort((a, b) => a - b));
+            expect(fractions[fractions.length - 1], stage).toBe(1);
+        }
+        expect(progress.filter((update) => update.stage === "download").length).toBe(Math.ceil(file.length / 100) + 1);
+        expect(progress[progress.length - 1]).toEqual({ stage: "textures", loaded: 3, total: 3 });
+    });
+});
+
+describe("inImport", () => {
+    it("rejects with an AbortError when aborted before it starts", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(inImport(puppetFile(1), { signal: controller.signal })).rejects.toHaveProperty("name", "AbortError");
+    });
+
+    it("disposes the textures decoded so far when aborted", async () => {
+        const controller = new AbortController();
+        const dispose = vi.spyOn(THREE.Texture.prototype, "dispose");
+
+        // Abort while decoding the second texture, after the first one was decoded
+        const decoder = new FakeDecoder((count) => {
+            if (count === 2) controller.abort();
+        });
+        await expect(inImport(puppetFile(3), { decoder: decoder, signal: controller.signal })).rejects.toHaveProperty("name", "AbortError");
+        expect(decoder.decoded).toBe(2);
+        expect(dispose).toHaveBeenCalledTimes(2);
+    });
+});
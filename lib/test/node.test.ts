@@ -0,0 +1,92 @@
+/*
+    Tests of node world transforms.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as THREE from "three";
+import { Node } from "../nodes/node";
+
+function expectPoint(point: THREE.Vector2, x: number, y: number) {
+    expect(point.x).toBeCloseTo(x);
+    expect(point.y).toBeCloseTo(y);
+}
+
+describe("Node world transforms", () => {
+    let root: Node;
+    let parent: Node;
+    let child: Node;
+
+    beforeEach(() => {
+        root = new Node();
+        parent = new Node();
+        child = new Node();
+        parent.parent = root;
+        root.children = [parent];
+        child.parent = parent;
+        parent.children = [child];
+
+        // Turned a quarter, scaled twice and moved, with a child one unit along its X axis
+        parent.transform.rot.set(0, 0, Math.PI / 2);
+        parent.transform.scale.set(2, 2);
+        parent.transform.trans.set(10, 0, 0);
+        child.transform.trans.set(1, 0, 0);
+    });
+
+    it("combine the transforms of every parent", () => {
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 10, 2);
+        expectPoint(child.localToWorld(new THREE.Vector2(1, 0)), 10, 4);
+        expectPoint(parent.worldToLocal(new THREE.Vector2(10, 2)), 1, 0);
+    });
+
+    it("convert points back and forth", () => {
+        child.transform.rot.set(0, 0, 0.3);
+        child.transform.scale.set(0.5, -1.5);
+        const point = new THREE.Vector2(3.5, -7.25);
+        expectPoint(child.worldToLocal(child.localToWorld(point)), point.x, point.y);
+        expectPoint(child.localToWorld(child.worldToLocal(point)), point.x, point.y);
+    });
+
+    it("ignore the parents of nodes locked to root", () => {
+        child.lockToRoot = true;
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 1, 0);
+
+        parent.transform.trans.set(50, 50, 0);
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 1, 0);
+
+        root.transform.trans.set(0, 5, 0);
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 1, 5);
+    });
+
+    it("keep the three.js object of a node locked to root in place under its parent's", () => {
+        child.lockToRoot = true;
+        const group = new THREE.Group();
+        root.createTree(group);
+        parent.transform.trans.set(50, 50, 0);
+        [root, parent, child].forEach((node) => node.updateTransform());
+        group.updateMatrixWorld(true);
+
+        const position = new THREE.Vector3().setFromMatrixPosition(child.threeObj.matrixWorld);
+        expectPoint(new THREE.Vector2(position.x, position.y), 1, 0);
+    });
+
+    it("are only recomputed after a transform they depend on changed", () => {
+        const parentLocal = vi.spyOn(parent, "offsetTransform");
+        const childLocal = vi.spyOn(child, "offsetTransform");
+        const first = child.worldMatrix();
+        expect(child.worldMatrix()).toEqual(first);
+        expect([parentLocal.mock.calls.length, childLocal.mock.calls.length]).toEqual([1, 1]);
+
+        // A change to the parent, or to the parameter offsets, dirties the child
+        parent.transform.trans.set(20, 0, 0);
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 20, 2);
+        expect([parentLocal.mock.calls.length, childLocal.mock.calls.length]).toEqual([2, 2]);
+
+        child.offsets.trans_offset.trans.set(1, 0, 0);
+        expectPoint(child.localToWorld(new THREE.Vector2(0, 0)), 20, 4);
+        expect([parentLocal.mock.calls.length, childLocal.mock.calls.length]).toEqual([2, 3]);
+        expect(child.worldMatrix()).not.toEqual(first);
+    });
+});
@@ -0,0 +1,125 @@
+/*
+    Tests of applying parameters to the nodes bound to them.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it, vi } from "vitest";
+import { Vector2 } from "three";
+import { PartOffsets, deserializeParam } from "../param";
+
+/**
+ * Applies a parameter binding the zsort of a node, and returns the zsort offset it gives.
+ * @param value - The value of the parameter.
+ * @param binding - The binding, as in the puppet payload.
+ * @param axis_points - The axis points of the parameter, a 2D parameter if there are two axes.
+ */
+function zsortAt(value: [number, number], binding: any, axis_points: number[][]): number {
+    const param = deserializeParam({
+        uuid: 1,
+        name: "Param",
+        is_vec2: axis_points.length > 1,
+        min: [0, 0],
+        max: [1, 1],
+        defaults: [0, 0],
+        axis_points: axis_points,
+        bindings: [{ node: 2, param_name: "zSort", interpolate_mode: "Linear", ...binding }],
+    });
+    const offsets = new PartOffsets();
+    param.apply(new Vector2(...value), new Map([[2, offsets]]), []);
+    return offsets.zsort_offset;
+}
+
+describe("interpolation modes", () => {
+    // A bump in the middle of three axis points, sampled halfway into the first cell
+    const bump = (mode: string) => zsortAt([0.25, 0], { values: [[0], [10], [0]], interpolate_mode: mode }, [[0, 0.5, 1]]);
+
+    it("interpolates linearly and eased", () => {
+        expect(bump("Linear")).toBe(5);
+        expect(bump("Smoothstep")).toBe(5);
+        expect(bump("Smootherstep")).toBe(5);
+        expect(zsortAt([0.125, 0], { values: [[0], [10], [0]], interpolate_mode: "Smoothstep" }, [[0, 0.5, 1]])).toBeCloseTo(1.5625);
+    });
+
+    it("snaps to the nearest keypoint", () => {
+        expect(bump("Nearest")).toBe(10);
+        expect(zsortAt([0.2, 0], { values: [[0], [10], [0]], interpolate_mode: "Nearest" }, [[0, 0.5, 1]])).toBe(0);
+    });
+
+    it("holds a keypoint until the next one is reached", () => {
+        expect(bump("Stepped")).toBe(0);
+        expect(zsortAt([0.49, 0], { values: [[0], [10], [0]], interpolate_mode: "Stepped" }, [[0, 0.5, 1]])).toBe(0);
+        expect(zsortAt([0.5, 0], { values: [[0], [10], [0]], interpolate_mode: "Stepped" }, [[0, 0.5, 1]])).toBe(10);
+        expect(zsortAt([0.75, 0], { values: [[0], [10], [0]], interpolate_mode: "Stepped" }, [[0, 0.5, 1]])).toBe(10);
+    });
+
+    it("interpolates cubically with Catmull-Rom tangents", () => {
+        expect(bump("Cubic")).toBeCloseTo(6.25);
+        expect(zsortAt([0.5, 0], { values: [[0], [10], [0]], interpolate_mode: "Cubic" }, [[0, 0.5, 1]])).toBe(10);
+        // A straight line stays straight
+        expect(zsortAt([0.3, 0], { values: [[0], [5], [10]], interpolate_mode: "Cubic" }, [[0, 0.5, 1]])).toBeCloseTo(3);
+    });
+
+    it("falls back to linear on unknown modes, with a warning", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        try {
+            expect(bump("Bouncy")).toBe(5);
+            expect(warn).toHaveBeenCalledOnce();
+        } finally {
+            warn.mockRestore();
+        }
+    });
+});
+
+describe("Param.apply", () => {
+    // Keypoints indexed as [x][y], over x axis points [0, 0.5, 1] and y axis points [0, 1]
+    const grid = { values: [[0, 100], [10, 110], [20, 120]] };
+    const axes = [[0, 0.5, 1], [0, 1]];
+
+    it("interpolates between the axis points of a 1D parameter", () => {
+        const line = { values: [[0], [10], [30]] };
+        expect(zsortAt([0, 0], line, [[0, 0.5, 1]])).toBe(0);
+        expect(zsortAt([0.25, 0], line, [[0, 0.5, 1]])).toBe(5);
+        expect(zsortAt([0.5, 0], line, [[0, 0.5, 1]])).toBe(10);
+        expect(zsortAt([0.75, 0], line, [[0, 0.5, 1]])).toBe(20);
+        expect(zsortAt([1, 0], line, [[0, 0.5, 1]])).toBe(30);
+    });
+
+    it("interpolates bilinearly inside the cells of a 2D parameter", () => {
+        expect(zsortAt([0, 0], grid, axes)).toBe(0);
+        expect(zsortAt([1, 1], grid, axes)).toBe(120);
+        expect(zsortAt([0.25, 0.5], grid, axes)).toBe(55);
+        expect(zsortAt([0.75, 0.25], grid, axes)).toBe(40);
+    });
+
+    it("clamps values outside of the range to the outer keypoints", () => {
+        expect(zsortAt([-1, 0.5], grid, axes)).toBe(50);
+        expect(zsortAt([2, 2], grid, axes)).toBe(120);
+        expect(zsortAt([1.5, 0], { values: [[0], [10], [30]] }, [[0, 0.5, 1]])).toBe(30);
+    });
+
+    it("uses the only keypoint of a single axis point", () => {
+        expect(zsortAt([0, 0], { values: [[7]] }, [[0]])).toBe(7);
+        expect(zsortAt([0.8, 0], { values: [[7]] }, [[0]])).toBe(7);
+    });
+
+    it("fills unset keypoints from the set ones", () => {
+        // Only the ends of the bottom row are set, the middle is interpolated and the top row extended
+        const sparse = { values: [[0, 99], [99, 99], [10, 99]], isSet: [[true, false], [false, false], [true, false]] };
+        expect(zsortAt([0.5, 0], sparse, axes)).toBe(5);
+        expect(zsortAt([0.5, 1], sparse, axes)).toBe(5);
+        expect(zsortAt([1, 1], sparse, axes)).toBe(10);
+
+        // Along X first, then along Y
+        const corner = { values: [[0, 0], [0, 0], [0, 8]], isSet: [[true, false], [false, false], [false, true]] };
+        expect(zsortAt([0.5, 0], corner, axes)).toBe(0);
+        expect(zsortAt([0.5, 1], corner, axes)).toBe(8);
+        expect(zsortAt([0, 1], corner, axes)).toBe(8);
+    });
+
+    it("leaves the node alone when no keypoint is set", () => {
+        const unset = { values: [[5, 5], [5, 5], [5, 5]], isSet: [[false, false], [false, false], [false, false]] };
+        expect(zsortAt([0.5, 0.5], unset, axes)).toBe(0);
+    });
+});
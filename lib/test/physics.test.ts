@@ -0,0 +1,69 @@
+/*
+    Tests of SimplePhysics driving parameters as the puppet updates.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import { Node } from "../nodes/node";
+import { ParamMapMode, PhysicsModel, SimplePhysics } from "../nodes/physics";
+import { Puppet } from "../puppet";
+import { deserializeParam } from "../param";
+
+/**
+ * Creates a puppet with a pendulum hanging from a node, driving a parameter.
+ */
+function pendulumPuppet(model: PhysicsModel) {
+    const puppet = new Puppet();
+    const head = new Node();
+    head.uuid = 2;
+    const physics = new SimplePhysics();
+    physics.uuid = 3;
+    physics.param = 1;
+    physics.model_type = model;
+    physics.map_mode = ParamMapMode.AngleLength;
+    puppet.addNode(head);
+    puppet.addNode(physics, head);
+    puppet.params = [deserializeParam({ uuid: 1, name: "Hair", is_vec2: true, min: [-1, 0], max: [1, 2], defaults: [0, 0], axis_points: [[0, 1], [0, 1]], bindings: [] })];
+    return { puppet, head, param: puppet.params[0] };
+}
+
+function run(puppet: Puppet, seconds: number) {
+    for (let time = 0; time < seconds; time += 0.05) puppet.update(0.05);
+}
+
+describe("SimplePhysics", () => {
+    for (const model of [PhysicsModel.Pendulum, PhysicsModel.SpringPendulum]) {
+        it(`${model} rests straight down, swings when jerked and settles again`, () => {
+            const { puppet, head, param } = pendulumPuppet(model);
+
+            run(puppet, 1);
+            expect(param.value.x).toBeCloseTo(0);
+            expect(param.value.y).toBeCloseTo(1);
+
+            // Moving the node the pendulum hangs from swings it
+            head.transform.trans.set(100, 0, 0);
+            run(puppet, 0.1);
+            expect(Math.abs(param.value.x)).toBeGreaterThan(0.01);
+
+            run(puppet, 10);
+            expect(param.value.x).toBeCloseTo(0, 2);
+            expect(param.value.y).toBeCloseTo(1, 2);
+        });
+    }
+
+    it("only advances when time passes", () => {
+        const { puppet, head, param } = pendulumPuppet(PhysicsModel.Pendulum);
+        run(puppet, 1);
+        head.transform.trans.set(100, 0, 0);
+
+        // The anchor moves away from the bob, which stays where it was until time passes
+        puppet.update();
+        puppet.update();
+        const value = param.value.clone();
+        expect(value.x).not.toBeCloseTo(0);
+        for (let i = 0; i < 10; i++) puppet.update();
+        expect(param.value.toArray()).toEqual(value.toArray());
+    });
+});
@@ -0,0 +1,109 @@
+/*
+    Tests of picking parts against their meshes and decoded textures, without a GPU.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { beforeEach, describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { Puppet } from "../puppet";
+import { Drawable, Mask, MaskData, Part } from "../nodes/drawable";
+import { MaskingMode } from "../nodes/node";
+
+/**
+ * Creates a drawable covering a 10x10 square with the whole texture.
+ */
+function square<T extends Drawable>(drawable: T, uuid: number, x: number, y: number): T {
+    drawable.uuid = uuid;
+    drawable.name = `Square ${uuid}`;
+    drawable.transform.trans.set(x, y, 0);
+    drawable.mesh.vertices = [new THREE.Vector2(0, 0), new THREE.Vector2(10, 0), new THREE.Vector2(0, 10), new THREE.Vector2(10, 10)];
+    drawable.mesh.uvs = [new THREE.Vector2(0, 0), new THREE.Vector2(1, 0), new THREE.Vector2(0, 1), new THREE.Vector2(1, 1)];
+    drawable.mesh.indices = [0, 1, 2, 1, 3, 2];
+    return drawable;
+}
+
+function names(puppet: Puppet, x: number, y: number): string[] {
+    return puppet.pick(new THREE.Vector2(x, y)).map((hit) => hit.part.name!);
+}
+
+describe("Puppet.pick", () => {
+    let puppet: Puppet;
+    let back: Part;
+    let front: Part;
+    let mask: Mask;
+
+    beforeEach(() => {
+        puppet = new Puppet();
+
+        // Opaque on the left half, transparent on the right half
+        puppet.textures = [new THREE.DataTexture(new Uint8Array([
+            0, 0, 0, 255, 0, 0, 0, 0,
+            0, 0, 0, 255, 0, 0, 0, 0,
+        ]), 2, 2)];
+
+        back = square(new Part(), 2, 0, 0);
+        back.textures = [0];
+        front = square(new Part(), 3, 2, 0);
+        front.textures = [0];
+        front.zsort = -1;
+        mask = square(new Mask(), 4, 0, 5);
+        puppet.addNode(back);
+        puppet.addNode(front);
+        puppet.addNode(mask);
+        puppet.update();
+    });
+
+    it("hits opaque pixels, topmost first", () => {
+        expect(names(puppet, 3, 2)).toEqual(["Square 3", "Square 2"]);
+
+        const [hit] = puppet.pick(new THREE.Vector2(3, 2));
+        expect(hit.point.toArray()).toEqual([1, 2]);
+        expect(hit.uv.x).toBeCloseTo(0.1);
+        expect(hit.uv.y).toBeCloseTo(0.2);
+        expect(hit.alpha).toBe(1);
+    });
+
+    it("skips transparent pixels and points outside the meshes", () => {
+        expect(names(puppet, 6, 2)).toEqual(["Square 3"]);
+        expect(names(puppet, 9, 2)).toEqual([]);
+        expect(names(puppet, 20, 2)).toEqual([]);
+    });
+
+    it("skips disabled parts, and parts under disabled nodes", () => {
+        front.enabled = false;
+        expect(names(puppet, 3, 2)).toEqual(["Square 2"]);
+
+        puppet.reparent(back, mask);
+        back.transform.trans.set(0, -5, 0);
+        mask.enabled = false;
+        puppet.update();
+        expect(names(puppet, 3, 2)).toEqual([]);
+    });
+
+    it("only hits where masks let the part be drawn", () => {
+        const data = new MaskData();
+        data.source = mask.uuid;
+        data.mode = MaskingMode.Mask;
+        back.masks = [data];
+        expect(names(puppet, 3, 2)).toEqual(["Square 3"]);
+        expect(names(puppet, 3, 7)).toEqual(["Square 3", "Square 2"]);
+
+        data.mode = MaskingMode.Dodge;
+        expect(names(puppet, 3, 2)).toEqual(["Square 3", "Square 2"]);
+        expect(names(puppet, 3, 7)).toEqual(["Square 3"]);
+    });
+
+    it("follows the deformed mesh", () => {
+        puppet.deformBuffer[front.offsets.vert_offset + 1].set(-20, 0);
+        puppet.deformBuffer[front.offsets.vert_offset + 3].set(-20, 0);
+        expect(names(puppet, 3, 2)).toEqual(["Square 2"]);
+    });
+
+    it("respects the alpha threshold and opacity", () => {
+        front.opacity = 0.5;
+        expect(names(puppet, 3, 2)).toEqual(["Square 3", "Square 2"]);
+        expect(puppet.pick(new THREE.Vector2(3, 2), { alphaThreshold: 0.5 }).map((hit) => hit.part)).toEqual([back]);
+    });
+});
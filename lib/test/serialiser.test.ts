@@ -0,0 +1,296 @@
+/*
+    Round-trip tests of node and puppet serialisation over generated puppets.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { BlendMode, JointBindingData, MaskingMode, Node } from "../nodes/node";
+import { MaskData, Mask, Part } from "../nodes/drawable";
+import { Composite } from "../nodes/composite";
+import { PathDeform } from "../nodes/pathdeform";
+import { ParamMapMode, PhysicsModel, SimplePhysics } from "../nodes/physics";
+import { deserializeNode, serializeNode } from "../nodes/serialiser";
+import { Puppet, serializePuppet } from "../puppet";
+import { deserializeParam } from "../param";
+import { inExport, inImport } from "../inp";
+
+const RUNS = 100;
+
+/**
+ * Seeded random numbers, so a failing run can be reproduced from its seed.
+ */
+function random(seed: number) {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    return {
+        int: (max: number) => Math.floor(next() * max),
+        // Multiples of 1/16 survive every conversion exactly, and JSON has no negative zero
+        number: (min: number, max: number) => Math.round((min + next() * (max - min)) * 16) / 16 + 0,
+        bool: () => next() < 0.5,
+        pick: <T>(items: T[]) => items[Math.floor(next() * items.length)],
+    };
+}
+
+type Random = ReturnType<typeof random>;
+
+const blendModes = Object.values(BlendMode).filter((mode): mode is BlendMode => typeof mode === "number");
+
+function generateMasks(rng: Random, uuids: number[]): MaskData[] {
+    return Array.from({ length: rng.int(3) }, () => {
+        const mask = new MaskData();
+        mask.source = rng.pick(uuids);
+        mask.mode = rng.pick([MaskingMode.Mask, MaskingMode.Dodge]);
+        return mask;
+    });
+}
+
+function generateMesh(rng: Random, node: Mask | Part) {
+    const count = 3 + rng.int(4);
+    node.mesh.vertices = Array.from({ length: count }, () => new THREE.Vector2(rng.number(-100, 100), rng.number(-100, 100)));
+    node.mesh.uvs = node.mesh.vertices.map(() => new THREE.Vector2(rng.number(0, 1), rng.number(0, 1)));
+    node.mesh.indices = Array.from({ length: 3 * (1 + rng.int(3)) }, () => rng.int(count));
+    node.mesh.origin = new THREE.Vector2(rng.number(-10, 10), rng.number(-10, 10));
+}
+
+/**
+ * Generates a node of a random type with random properties, and children down to a depth.
+ */
+function generateNode(rng: Random, depth: number, uuids: number[]): Node {
+    const type = depth === 0 ? "Node" : rng.pick(["Node", "Part", "Mask", "Composite", "PathDeform", "SimplePhysics"]);
+    let node: Node;
+    switch (type) {
+        case "Part": {
+            const part = new Part();
+            generateMesh(rng, part);
+            part.masks = generateMasks(rng, uuids);
+            part.textures = [rng.int(2), rng.int(2), rng.int(2)];
+            part.opacity = rng.number(0, 1);
+            part.emissionStrength = rng.number(0, 2);
+            part.mask_mode = rng.pick([MaskingMode.Mask, MaskingMode.Dodge]);
+            part.mask_threshold = rng.number(0, 1);
+            part.masked_by = uuids.filter(() => rng.bool());
+            part.blend_mode = rng.pick(blendModes);
+            part.tint.setRGB(rng.number(0, 1), rng.number(0, 1), rng.number(0, 1));
+            part.screenTint.setRGB(rng.number(0, 1), rng.number(0, 1), rng.number(0, 1));
+            node = part;
+            break;
+        }
+        case "Mask": {
+            const mask = new Mask();
+            generateMesh(rng, mask);
+            mask.masks = generateMasks(rng, uuids);
+            node = mask;
+            break;
+        }
+        case "Composite": {
+            const composite = new Composite();
+            composite.blend_mode = rng.pick(blendModes);
+            composite.opacity = rng.number(0, 1);
+            composite.tint.setRGB(rng.number(0, 1), rng.number(0, 1), rng.number(0, 1));
+            composite.screenTint.setRGB(rng.number(0, 1), rng.number(0, 1), rng.number(0, 1));
+            composite.mask_threshold = rng.number(0, 1);
+            composite.masks = generateMasks(rng, uuids);
+            node = composite;
+            break;
+        }
+        case "PathDeform": {
+            const path = new PathDeform();
+            path.joints = Array.from({ length: 2 + rng.int(3) }, () => new THREE.Vector2(rng.number(-50, 50), rng.number(-50, 50)));
+            path.bindings = Array.from({ length: rng.int(3) }, () => {
+                const binding = new JointBindingData();
+                binding.bound_to = rng.pick(uuids);
+                binding.bind_data = path.joints.map(() => Array.from({ length: rng.int(4) }, () => rng.int(6)));
+                return binding;
+            });
+            node = path;
+            break;
+        }
+        case "SimplePhysics": {
+            const physics = new SimplePhysics();
+            physics.param = rng.int(4);
+            physics.model_type = rng.pick([PhysicsModel.Pendulum, PhysicsModel.SpringPendulum]);
+            physics.map_mode = rng.pick([ParamMapMode.AngleLength, ParamMapMode.XY]);
+            physics.gravity = rng.number(0, 2);
+            physics.length = rng.number(1, 100);
+            physics.frequency = rng.number(0, 3);
+            physics.angle_damping = rng.number(0, 1);
+            physics.length_damping = rng.number(0, 1);
+            physics.output_scale.set(rng.number(-2, 2), rng.number(-2, 2));
+            node = physics;
+            break;
+        }
+        default:
+            node = new Node();
+    }
+
+    node.uuid = uuids[uuids.length - 1] + 1;
+    uuids.push(node.uuid);
+    node.name = `${type} ${node.uuid}`;
+    node.enabled = rng.bool();
+    node.zsort = rng.number(-1, 1);
+    node.lockToRoot = rng.bool();
+    node.transform.trans.set(rng.number(-100, 100), rng.number(-100, 100), rng.number(-1, 1));
+    node.transform.rot.set(rng.number(-3, 3), rng.number(-3, 3), rng.number(-3, 3));
+    node.transform.scale.set(rng.number(-2, 2), rng.number(-2, 2));
+    if (depth < 3) {
+        node.children = Array.from({ length: rng.int(4) }, () => {
+            const child = generateNode(rng, depth + 1, uuids);
+            child.parent = node;
+            return child;
+        });
+    }
+    return node;
+}
+
+function generatePuppet(rng: Random): Puppet {
+    const puppet = new Puppet();
+    puppet.meta.name = `Puppet ${rng.int(1000)}`;
+    puppet.meta.artist = rng.pick(["", "Artist"]);
+    puppet.physics.pixelsPerMeter = rng.number(100, 1000);
+    puppet.physics.gravity = rng.number(0, 20);
+    puppet.rootNode = generateNode(rng, 0, [0]);
+    puppet.reindex();
+
+    // Every node is bound to the parameter, with a zsort channel
+    const values = [[0, 1], [1, 0]];
+    puppet.params = [deserializeParam({
+        uuid: 1,
+        name: "Param",
+        is_vec2: true,
+        min: [-1, -1],
+        max: [1, 1],
+        defaults: [0, 0],
+        axis_points: [[0, 1], [0, 1]],
+        bindings: puppet.nodes.map((node) => ({ node: node.uuid, param_name: "zSort", values: values, isSet: [[true, true], [true, true]], interpolate_mode: "Linear" })),
+    })];
+
+    puppet.textures = [0, 1].map(() => {
+        const data = new Uint8Array(4 * 4 * 4).map(() => rng.int(256));
+        return new THREE.DataTexture(data, 4, 4);
+    });
+    puppet.rebuildOffsets();
+    return puppet;
+}
+
+describe("serializeNode", () => {
+    it("is the exact inverse of deserializeNode on generated node trees", () => {
+        for (let seed = 0; seed < RUNS; seed++) {
+            const node = generateNode(random(seed), 0, [0]);
+            const json = serializeNode(node);
+            const copy = deserializeNode(null, JSON.parse(JSON.stringify(json)));
+            expect(serializeNode(copy), `seed ${seed}`).toEqual(json);
+        }
+    });
+
+    it("keeps the properties of every node type", () => {
+        for (let seed = 0; seed < RUNS; seed++) {
+            const original = generateNode(random(seed), 0, [0]);
+            const copy = deserializeNode(null, JSON.parse(JSON.stringify(serializeNode(original))));
+
+            const compare = (a: Node, b: Node) => {
+                expect(b.constructor).toBe(a.constructor);
+                expect([b.uuid, b.name, b.enabled, b.zsort, b.lockToRoot]).toEqual([a.uuid, a.name, a.enabled, a.zsort, a.lockToRoot]);
+                expect(b.transform.trans.toArray()).toEqual(a.transform.trans.toArray());
+                expect(b.transform.rot.toArray()).toEqual(a.transform.rot.toArray());
+                expect(b.transform.scale.toArray()).toEqual(a.transform.scale.toArray());
+                if (a instanceof Part && b instanceof Part) {
+                    expect(b.mesh.vertices).toEqual(a.mesh.vertices);
+                    expect(b.mesh.uvs).toEqual(a.mesh.uvs);
+                    expect(b.mesh.indices).toEqual(a.mesh.indices);
+                    expect(b.masks).toEqual(a.masks);
+                    expect(b.blend_mode).toBe(a.blend_mode);
+                    expect(b.tint.toArray()).toEqual(a.tint.toArray());
+                    expect(b.screenTint.toArray()).toEqual(a.screenTint.toArray());
+                    expect([b.textures, b.opacity, b.masked_by, b.mask_threshold]).toEqual([a.textures, a.opacity, a.masked_by, a.mask_threshold]);
+                }
+                if (a instanceof Composite && b instanceof Composite) {
+                    expect([b.blend_mode, b.opacity, b.mask_threshold]).toEqual([a.blend_mode, a.opacity, a.mask_threshold]);
+                    expect(b.masks).toEqual(a.masks);
+                    expect(b.tint.toArray()).toEqual(a.tint.toArray());
+                }
+                if (a instanceof PathDeform && b instanceof PathDeform) {
+                    expect(b.joints).toEqual(a.joints);
+                    expect(b.bindings).toEqual(a.bindings);
+                }
+                if (a instanceof SimplePhysics && b instanceof SimplePhysics) {
+                    expect([b.param, b.model_type, b.map_mode, b.gravity, b.length, b.frequency, b.angle_damping, b.length_damping])
+                        .toEqual([a.param, a.model_type, a.map_mode, a.gravity, a.length, a.frequency, a.angle_damping, a.length_damping]);
+                    expect(b.output_scale.toArray()).toEqual(a.output_scale.toArray());
+                }
+                expect(b.children.length).toBe(a.children.length);
+                a.children.forEach((child, i) => {
+                    expect(b.children[i].parent).toBe(b);
+                    compare(child, b.children[i]);
+                });
+            };
+            compare(original, copy);
+        }
+    });
+});
+
+describe("inExport", () => {
+    it("round-trips generated puppets through inImport", async () => {
+        for (let seed = 0; seed < 20; seed++) {
+            const puppet = generatePuppet(random(seed));
+            const copy = await inImport(inExport(puppet));
+
+            expect(serializePuppet(copy), `seed ${seed}`).toEqual(serializePuppet(puppet));
+            expect(copy.textures.length).toBe(puppet.textures.length);
+            copy.textures.forEach((texture, i) => {
+                expect(Array.from(texture.image.data)).toEqual(Array.from(puppet.textures[i].image.data));
+            });
+        }
+    });
+});
+
+describe("serializeParam", () => {
+    it("writes bindings back the way the rigger set them", async () => {
+        const bindings = [
+            { node: 1, param_name: "transform.t.x", values: [[0, 7], [3, 0]], isSet: [[true, false], [true, false]], interpolate_mode: "Linear" },
+            { node: 1, param_name: "transform.t.y", values: [[0, 0], [0, 0]], isSet: [[false, false], [false, false]], interpolate_mode: "Stepped" },
+            { node: 1, param_name: "opacity", values: [[1, 0.5], [0, 1]], isSet: [[true, true], [true, false]], interpolate_mode: "Linear" },
+        ];
+        const puppet = new Puppet();
+        puppet.rootNode.uuid = 1;
+        puppet.reindex();
+        puppet.params = [deserializeParam({
+            uuid: 2,
+            name: "Param",
+            is_vec2: true,
+            min: [0, 0],
+            max: [1, 1],
+            defaults: [0.5, 0.5],
+            axis_points: [[0, 1], [0, 1]],
+            bindings: JSON.parse(JSON.stringify(bindings)),
+        })];
+        puppet.update();
+
+        // Filling in the unset keypoints to apply them leaves what gets written alone
+        expect(puppet.params[0].bindings[0].interpolated.TransformTX).toEqual([[0, 0], [3, 3]]);
+        const copy = await inImport(inExport(puppet));
+        copy.update();
+        expect(serializePuppet(copy).param[0].bindings).toEqual(bindings);
+    });
+});
+
+describe("serializeMasks", () => {
+    it("reads and writes the mask modes the way Inochi2D does", () => {
+        const masks = [{ source: 2, mode: "Mask" }, { source: 3, mode: "DodgeMask" }];
+        const mesh = { verts: [0, 0, 1, 0, 0, 1], uvs: [0, 0, 1, 0, 0, 1], indices: [0, 1, 2], origin: [0, 0] };
+        const part = deserializeNode(null, { type: "Part", uuid: 1, mesh: mesh, masks: masks, children: [] }) as Part;
+        expect(part.masks.map((mask) => mask.mode)).toEqual([MaskingMode.Mask, MaskingMode.Dodge]);
+        expect(serializeNode(part).masks).toEqual(masks);
+
+        const legacy = deserializeNode(null, { type: "Part", uuid: 1, mesh: mesh, masks: [{ source: 3, mode: "Dodge" }], children: [] }) as Part;
+        expect(legacy.masks[0].mode).toBe(MaskingMode.Dodge);
+    });
+});
@@ -37,4 +37,6 @@ const puppet = await Inochi2D.INP.inImportFromURL('Aka.inx')
 console.log("Loaded " + puppet.meta + "!");
 
 // Render the puppet
-const puppetObject = Inochi2D.Renderer.renderPuppet(puppet, scene, camera, renderer);
\ No newline at end of file
+const puppetRenderer = new Inochi2D.Renderer.PuppetRenderer(renderer, scene, camera);
+const puppetInstance = puppetRenderer.add(puppet);
+puppetRenderer.start();
\ No newline at end of file
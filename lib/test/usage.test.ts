@@ -0,0 +1,100 @@
+/*
+    Tests of checking uses of a puppet against its usage rights.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import { Puppet, PuppetAllowedModification, PuppetAllowedRedistribution, PuppetAllowedUsers, PuppetUsageRights } from "../puppet";
+import { PuppetUser, UsageContext, checkUsage, usageSummary } from "../usage";
+
+const { OnlyAuthor, OnlyLicensee, Everyone } = PuppetAllowedUsers;
+const { Prohibited, ViralLicense, CopyleftLicense } = PuppetAllowedRedistribution;
+const { AllowPersonal, AllowRedistribute } = PuppetAllowedModification;
+const NoModification = PuppetAllowedModification.Prohibited;
+
+function puppetWith(rights: Partial<PuppetUsageRights>): Puppet {
+    const puppet = new Puppet();
+    puppet.meta.name = "Puppet";
+    puppet.meta.artist = "Artist";
+    Object.assign(puppet.meta.rights, rights);
+    return puppet;
+}
+
+interface Case {
+    rights: Partial<PuppetUsageRights>;
+    context: UsageContext;
+    reasons: string[];
+    conditions?: string[];
+}
+
+const cases: Case[] = [
+    // Who may use the puppet
+    { rights: { allowedUsers: OnlyAuthor }, context: {}, reasons: ["Only the author may use this puppet"] },
+    { rights: { allowedUsers: OnlyAuthor }, context: { user: PuppetUser.Licensee }, reasons: ["Only the author may use this puppet"] },
+    { rights: { allowedUsers: OnlyLicensee }, context: {}, reasons: ["Only licensees may use this puppet"] },
+    { rights: { allowedUsers: OnlyLicensee }, context: { user: PuppetUser.Licensee }, reasons: [] },
+    { rights: { allowedUsers: Everyone }, context: {}, reasons: [] },
+
+    // What for
+    { rights: { allowedUsers: Everyone }, context: { commercial: true, violence: true, sexual: true }, reasons: [
+        "Commercial use isn't allowed", "Use in violent content isn't allowed", "Use in sexual content isn't allowed",
+    ] },
+    { rights: { allowedUsers: Everyone, allowCommercial: true, allowViolence: true, allowSexual: true }, context: { commercial: true, violence: true, sexual: true }, reasons: [] },
+
+    // Redistribution
+    { rights: { allowedUsers: Everyone, allowRedistribution: Prohibited }, context: { redistribute: true }, reasons: ["Redistribution isn't allowed"] },
+    { rights: { allowedUsers: Everyone, allowRedistribution: ViralLicense }, context: { redistribute: true }, reasons: [], conditions: ["Redistributed copies must carry the same licence"] },
+    { rights: { allowedUsers: Everyone, allowRedistribution: CopyleftLicense }, context: { redistribute: true }, reasons: [], conditions: ["Redistributed copies must be under a copyleft licence"] },
+
+    // Modification
+    { rights: { allowedUsers: Everyone, allowModification: NoModification }, context: { modify: "personal" }, reasons: ["Modification isn't allowed"] },
+    { rights: { allowedUsers: Everyone, allowModification: AllowPersonal }, context: { modify: "personal" }, reasons: [] },
+    { rights: { allowedUsers: Everyone, allowModification: AllowRedistribute }, context: { modify: "personal" }, reasons: [] },
+    { rights: { allowedUsers: Everyone, allowModification: NoModification, allowRedistribution: ViralLicense }, context: { modify: "redistribute" }, reasons: ["Modification isn't allowed"], conditions: ["Redistributed copies must carry the same licence"] },
+    { rights: { allowedUsers: Everyone, allowModification: AllowPersonal, allowRedistribution: ViralLicense }, context: { modify: "redistribute" }, reasons: ["Modified versions may only be used personally"], conditions: ["Redistributed copies must carry the same licence"] },
+    { rights: { allowedUsers: Everyone, allowModification: AllowRedistribute, allowRedistribution: Prohibited }, context: { modify: "redistribute" }, reasons: ["Redistribution isn't allowed"] },
+    { rights: { allowedUsers: Everyone, allowModification: AllowRedistribute, allowRedistribution: CopyleftLicense }, context: { modify: "redistribute" }, reasons: [], conditions: ["Redistributed copies must be under a copyleft licence"] },
+
+    // Attribution
+    { rights: { allowedUsers: Everyone, requireAttribution: true }, context: {}, reasons: [], conditions: ["Credit Artist"] },
+];
+
+describe("checkUsage", () => {
+    cases.forEach(({ rights, context, reasons, conditions = [] }) => {
+        it(`${JSON.stringify(rights)} for ${JSON.stringify(context)}`, () => {
+            const verdict = checkUsage(puppetWith(rights), context);
+            expect(verdict.reasons).toEqual(reasons);
+            expect(verdict.conditions).toEqual(conditions);
+            expect(verdict.allowed).toBe(reasons.length === 0);
+        });
+    });
+
+    it("lets the author do anything", () => {
+        const context: UsageContext = { user: PuppetUser.Author, commercial: true, violence: true, sexual: true, redistribute: true, modify: "redistribute" };
+        const verdict = checkUsage(puppetWith({ requireAttribution: true }), context);
+        expect(verdict).toEqual({ allowed: true, reasons: [], conditions: [], summary: verdict.summary });
+    });
+
+    it("defaults to the most restrictive rights", () => {
+        expect(checkUsage(new Puppet()).allowed).toBe(false);
+    });
+});
+
+describe("usageSummary", () => {
+    it("describes every term", () => {
+        const puppet = puppetWith({ allowedUsers: Everyone, allowCommercial: true, allowRedistribution: CopyleftLicense, allowModification: AllowPersonal, requireAttribution: true });
+        puppet.meta.rigger = "Rigger";
+        expect(usageSummary(puppet.meta).split("\n")).toEqual([
+            "Puppet by Artist (art) and Rigger (rigging)",
+            "May be used by anyone.",
+            "Commercial use is allowed.",
+            "Use in violent content is not allowed.",
+            "Use in sexual content is not allowed.",
+            "Redistribution is allowed under a copyleft licence.",
+            "Modification is allowed for personal use.",
+            "Attribution is required: credit Artist (art) and Rigger (rigging).",
+        ]);
+    });
+});
@@ -0,0 +1,67 @@
+/*
+    Tests of loading and validating puppets written by other tools.
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { describe, expect, it } from "vitest";
+import { inImport } from "../inp";
+import { validatePuppet } from "../validation";
+import { Part } from "../nodes/drawable";
+
+/**
+ * Builds an INP file with a payload and no textures.
+ */
+function inpFile(payload: any): Uint8Array {
+    const json = new TextEncoder().encode(JSON.stringify(payload));
+    const file = new Uint8Array(12 + json.length + 12);
+    const view = new DataView(file.buffer);
+    file.set(new TextEncoder().encode("TRNSRTS\0"), 0);
+    view.setUint32(8, json.length);
+    file.set(json, 12);
+    file.set(new TextEncoder().encode("TEX_SECT"), 12 + json.length);
+    view.setUint32(20 + json.length, 0);
+    return file;
+}
+
+// A part the way Inochi2D writes it, without the fields it leaves at their defaults
+const part = {
+    type: "Part",
+    uuid: 2,
+    name: "Body",
+    enabled: true,
+    zsort: 0,
+    transform: { trans: [0, 0, 0], rot: [0, 0, 0], scale: [1, 1] },
+    mesh: { verts: [0, 0, 1, 0, 0, 1], uvs: [0, 0, 1, 0, 0, 1], indices: [0, 1, 2], origin: [0, 0] },
+    children: [],
+};
+
+function payload(...children: any[]) {
+    return {
+        meta: { name: "Test", version: "1.0" },
+        nodes: { type: "Node", uuid: 1, name: "Root", enabled: true, zsort: 0, transform: part.transform, children: children },
+        param: [],
+    };
+}
+
+describe("validatePuppet", () => {
+    it("accepts parts without masked_by, textures or opacity", async () => {
+        const puppet = await inImport(inpFile(payload(part)));
+        const body = puppet.findByName("Body") as Part;
+        expect(body.masked_by).toEqual([]);
+        expect(body.textures).toEqual([]);
+        expect(body.opacity).toBe(1);
+
+        const report = validatePuppet(puppet);
+        expect(report.errors).toEqual([]);
+        expect(report.valid).toBe(true);
+    });
+
+    it("reports parts masked by missing nodes", async () => {
+        const puppet = await inImport(inpFile(payload({ ...part, masked_by: [9] })));
+        const report = validatePuppet(puppet);
+        expect(report.valid).toBe(false);
+        expect(report.errors.map((issue) => issue.node)).toEqual([2]);
+    });
+});
@@ -0,0 +1,203 @@
+/*
+    Puppet usage rights evaluation
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import {
+    Puppet,
+    PuppetAllowedModification,
+    PuppetAllowedRedistribution,
+    PuppetAllowedUsers,
+    PuppetMeta,
+} from "./puppet";
+
+/**
+ * Who is using a puppet.
+ */
+export enum PuppetUser {
+    /**
+     * The author of the puppet, who isn't bound by its usage rights.
+     */
+    Author = "author",
+
+    /**
+     * Someone the author licensed the puppet to.
+     */
+    Licensee = "licensee",
+
+    /**
+     * Anyone else.
+     */
+    Anyone = "anyone",
+}
+
+/**
+ * How a puppet is going to be used.
+ */
+export interface UsageContext {
+    /**
+     * Who is using the puppet, Anyone by default.
+     */
+    user?: PuppetUser;
+    commercial?: boolean;
+    violence?: boolean;
+    sexual?: boolean;
+
+    /**
+     * Whether the puppet file gets passed on to others.
+     */
+    redistribute?: boolean;
+
+    /**
+     * How the puppet gets modified, if at all.
+     */
+    modify?: "none" | "personal" | "redistribute";
+}
+
+/**
+ * Whether a puppet may be used in some way.
+ */
+export interface UsageVerdict {
+    allowed: boolean;
+
+    /**
+     * Why the use isn't allowed, empty when it is.
+     */
+    reasons: string[];
+
+    /**
+     * What the user has to do for the use to be allowed, such as crediting the author.
+     */
+    conditions: string[];
+
+    /**
+     * The usage rights of the puppet in plain words.
+     */
+    summary: string;
+}
+
+/**
+ * Checks a use of a puppet against the usage rights its creators gave it.
+ * @param puppet - The puppet to check.
+ * @param context - How the puppet is going to be used.
+ * @returns The verdict, with the reasons if the use isn't allowed.
+ */
+export function checkUsage(puppet: Puppet, context: UsageContext = {}): UsageVerdict {
+    const meta = puppet.meta;
+    const rights = meta.rights;
+    const user = context.user ?? PuppetUser.Anyone;
+    const modify = context.modify ?? "none";
+    const reasons: string[] = [];
+    const conditions: string[] = [];
+
+    // Authors can do whatever they like with their own puppet
+    if (user === PuppetUser.Author) {
+        return { allowed: true, reasons: reasons, conditions: conditions, summary: usageSummary(meta) };
+    }
+
+    if (rights.allowedUsers === PuppetAllowedUsers.OnlyAuthor) {
+        reasons.push("Only the author may use this puppet");
+    } else if (rights.allowedUsers === PuppetAllowedUsers.OnlyLicensee && user !== PuppetUser.Licensee) {
+        reasons.push("Only licensees may use this puppet");
+    }
+
+    if (context.commercial && !rights.allowCommercial) reasons.push("Commercial use isn't allowed");
+    if (context.violence && !rights.allowViolence) reasons.push("Use in violent content isn't allowed");
+    if (context.sexual && !rights.allowSexual) reasons.push("Use in sexual content isn't allowed");
+
+    // Passing on a modified puppet is redistributing it as well
+    if (context.redistribute || modify === "redistribute") {
+        switch (rights.allowRedistribution) {
+            case PuppetAllowedRedistribution.Prohibited:
+                reasons.push("Redistribution isn't allowed");
+                break;
+            case PuppetAllowedRedistribution.ViralLicense:
+                conditions.push("Redistributed copies must carry the same licence");
+                break;
+            case PuppetAllowedRedistribution.CopyleftLicense:
+                conditions.push("Redistributed copies must be under a copyleft licence");
+                break;
+        }
+    }
+
+    if (modify === "personal" && rights.allowModification === PuppetAllowedModification.Prohibited) {
+        reasons.push("Modification isn't allowed");
+    } else if (modify === "redistribute" && rights.allowModification !== PuppetAllowedModification.AllowRedistribute) {
+        reasons.push(rights.allowModification === PuppetAllowedModification.AllowPersonal
+            ? "Modified versions may only be used personally"
+            : "Modification isn't allowed");
+    }
+
+    if (rights.requireAttribution) conditions.push(`Credit ${attribution(meta)}`);
+
+    return { allowed: reasons.length === 0, reasons: reasons, conditions: conditions, summary: usageSummary(meta) };
+}
+
+/**
+ * Describes the usage rights of a puppet in plain words, one term per line.
+ * @param meta - The metadata of the puppet.
+ * @returns The licence summary.
+ */
+export function usageSummary(meta: PuppetMeta): string {
+    const rights = meta.rights;
+    const lines: string[] = [];
+
+    lines.push(`${meta.name || "This puppet"} by ${attribution(meta)}`);
+    if (meta.copyright) lines.push(meta.copyright);
+
+    switch (rights.allowedUsers) {
+        case PuppetAllowedUsers.OnlyAuthor:
+            lines.push("May only be used by its author.");
+            break;
+        case PuppetAllowedUsers.OnlyLicensee:
+            lines.push("May only be used by its licensees.");
+            break;
+        case PuppetAllowedUsers.Everyone:
+            lines.push("May be used by anyone.");
+            break;
+    }
+
+    lines.push(rights.allowCommercial ? "Commercial use is allowed." : "Commercial use is not allowed.");
+    lines.push(rights.allowViolence ? "Use in violent content is allowed." : "Use in violent content is not allowed.");
+    lines.push(rights.allowSexual ? "Use in sexual content is allowed." : "Use in sexual content is not allowed.");
+
+    switch (rights.allowRedistribution) {
+        case PuppetAllowedRedistribution.Prohibited:
+            lines.push("Redistribution is not allowed.");
+            break;
+        case PuppetAllowedRedistribution.ViralLicense:
+            lines.push("Redistribution is allowed under the same licence.");
+            break;
+        case PuppetAllowedRedistribution.CopyleftLicense:
+            lines.push("Redistribution is allowed under a copyleft licence.");
+            break;
+    }
+
+    switch (rights.allowModification) {
+        case PuppetAllowedModification.Prohibited:
+            lines.push("Modification is not allowed.");
+            break;
+        case PuppetAllowedModification.AllowPersonal:
+            lines.push("Modification is allowed for personal use.");
+            break;
+        case PuppetAllowedModification.AllowRedistribute:
+            lines.push("Modification is allowed, and modified versions may be redistributed.");
+            break;
+    }
+
+    if (rights.requireAttribution) lines.push(`Attribution is required: credit ${attribution(meta)}.`);
+    if (meta.licenseURL) lines.push(`Licence: ${meta.licenseURL}`);
+    if (meta.contact) lines.push(`Contact: ${meta.contact}`);
+    return lines.join("\n");
+}
+
+/**
+ * Names the creators of a puppet.
+ */
+function attribution(meta: PuppetMeta): string {
+    const artist = meta.artist || "unknown artist";
+    if (!meta.rigger || meta.rigger === meta.artist) return artist;
+    return `${artist} (art) and ${meta.rigger} (rigging)`;
+}
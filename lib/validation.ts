@@ -0,0 +1,161 @@
+/*
+    Puppet validation
+
+    Copyright © 2023, Inochi2D Project
+    Distributed under the 2-Clause BSD License, see LICENSE file.
+*/
+
+import { NO_THUMBNAIL, Puppet } from "./puppet";
+import { Node, NodeUuid } from "./nodes/node";
+import { Drawable, MaskData, Part } from "./nodes/drawable";
+import { Composite } from "./nodes/composite";
+import { PathDeform } from "./nodes/pathdeform";
+import { SimplePhysics } from "./nodes/physics";
+
+/**
+ * Texture slot value of a part that doesn't use the slot.
+ */
+const NO_TEXTURE = 4294967295;
+
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * A problem found in a puppet.
+ */
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    message: string;
+
+    /**
+     * The node the problem was found on, if any.
+     */
+    node?: NodeUuid;
+
+    /**
+     * The UUID of the parameter the problem was found on, if any.
+     */
+    param?: number;
+}
+
+/**
+ * The problems found in a puppet.
+ */
+export interface ValidationReport {
+    /**
+     * Whether the puppet has no errors, warnings don't count.
+     */
+    valid: boolean;
+    errors: ValidationIssue[];
+    warnings: ValidationIssue[];
+}
+
+/**
+ * Checks that everything in a puppet refers to things which exist.
+ * Errors are problems which break rendering, warnings are things which are likely mistakes.
+ * @param puppet - The puppet to validate.
+ * @returns The problems found.
+ */
+export function validatePuppet(puppet: Puppet): ValidationReport {
+    const report: ValidationReport = { valid: true, errors: [], warnings: [] };
+    const error = (issue: Omit<ValidationIssue, "severity">) => report.errors.push({ severity: "error", ...issue });
+    const warning = (issue: Omit<ValidationIssue, "severity">) => report.warnings.push({ severity: "warning", ...issue });
+
+    // Index the nodes, looking for duplicate UUIDs on the way
+    const nodes: Map<NodeUuid, Node> = new Map();
+    const visit = (node: Node) => {
+        if (nodes.has(node.uuid)) {
+            error({ node: node.uuid, message: `Duplicate node UUID ${node.uuid} on "${node.name}" and "${nodes.get(node.uuid)!.name}"` });
+        } else {
+            nodes.set(node.uuid, node);
+        }
+        node.children.forEach(visit);
+    };
+    visit(puppet.rootNode);
+
+    const checkMasks = (node: Node, masks: MaskData[]) => {
+        masks.forEach((mask) => {
+            const source = nodes.get(mask.source);
+            if (source === undefined) {
+                error({ node: node.uuid, message: `"${node.name}" is masked by missing node ${mask.source}` });
+            } else if (!(source instanceof Drawable)) {
+                error({ node: node.uuid, message: `"${node.name}" is masked by "${source.name}", which isn't drawable` });
+            }
+        });
+    };
+
+    nodes.forEach((node) => {
+        if (node instanceof Drawable) {
+            checkMasks(node, node.masks);
+
+            const mesh = node.mesh;
+            if (!mesh.isReady()) {
+                warning({ node: node.uuid, message: `"${node.name}" has ${mesh.indices.length} mesh indices, which isn't a whole number of triangles` });
+            }
+            const outOfRange = mesh.indices.find((index) => index < 0 || index >= mesh.vertices.length);
+            if (outOfRange !== undefined) {
+                error({ node: node.uuid, message: `"${node.name}" has mesh index ${outOfRange}, but only ${mesh.vertices.length} vertices` });
+            }
+            if (mesh.uvs !== undefined && mesh.uvs.length !== mesh.vertices.length) {
+                error({ node: node.uuid, message: `"${node.name}" has ${mesh.uvs.length} UVs for ${mesh.vertices.length} vertices` });
+            }
+        }
+
+        if (node instanceof Part) {
+            node.textures.forEach((index) => {
+                if (index === NO_TEXTURE) return;
+                if (index < 0 || index >= puppet.textures.length) {
+                    error({ node: node.uuid, message: `"${node.name}" uses texture ${index}, but the puppet has ${puppet.textures.length} textures` });
+                }
+            });
+            node.masked_by.forEach((uuid) => {
+                if (!nodes.has(uuid)) error({ node: node.uuid, message: `"${node.name}" is masked by missing node ${uuid}` });
+            });
+        }
+
+        if (node instanceof Composite) checkMasks(node, node.masks);
+
+        if (node instanceof PathDeform) {
+            node.bindings.forEach((binding) => {
+                const target = nodes.get(binding.bound_to);
+                if (target === undefined) {
+                    error({ node: node.uuid, message: `"${node.name}" is bound to missing node ${binding.bound_to}` });
+                    return;
+                }
+                const vertexCount = target.deformVertexCount();
+                const outOfRange = binding.bind_data.flat().find((index) => index < 0 || index >= vertexCount);
+                if (outOfRange !== undefined) {
+                    error({ node: node.uuid, message: `"${node.name}" binds vertex ${outOfRange} of "${target.name}", which has ${vertexCount} vertices` });
+                }
+            });
+        }
+
+        if (node instanceof SimplePhysics && !puppet.params.some((param) => param.uuid === node.param)) {
+            warning({ node: node.uuid, message: `"${node.name}" drives missing parameter ${node.param}` });
+        }
+    });
+
+    puppet.params.forEach((param) => {
+        param.bindings.forEach((binding) => {
+            const target = nodes.get(binding.node);
+            if (target === undefined) {
+                error({ param: param.uuid, message: `Parameter "${param.name}" is bound to missing node ${binding.node}` });
+                return;
+            }
+
+            // Every keypoint of a deform binding needs an offset per vertex
+            const vertexCount = target.deformVertexCount();
+            const mismatched = binding.values.Deform.flat().find((offsets) => offsets.length !== vertexCount);
+            if (mismatched !== undefined) {
+                warning({ node: target.uuid, param: param.uuid, message: `Parameter "${param.name}" deforms ${mismatched.length} vertices of "${target.name}", which has ${vertexCount}` });
+            }
+        });
+    });
+
+    const thumbnailId = puppet.meta.thumbnailId;
+    if (thumbnailId !== NO_THUMBNAIL && thumbnailId >= puppet.textures.length) {
+        warning({ message: `Thumbnail is texture ${thumbnailId}, but the puppet has ${puppet.textures.length} textures` });
+    }
+
+    report.valid = report.errors.length === 0;
+    return report;
+}